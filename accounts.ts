@@ -0,0 +1,105 @@
+import { parseNum, round } from './helpers';
+
+export interface LedgerEntry {
+    date: string; // ISO or YYYY-MM-DD
+    amount: number; // deposit > 0, withdrawal < 0
+    note?: string;
+}
+
+export interface Account {
+    name: string;
+    baseCurrency: string;
+    startingBalance: number;
+    startedAt?: string;
+    riskPct: number | null;
+    ledger: LedgerEntry[];
+    template?: string; // body template path for this account's trades
+    source: 'settings' | 'note';
+}
+
+// A closed trade's contribution to its account's equity.
+export interface RealizedEvent {
+    t: number;
+    pnl: number;
+}
+
+export interface EquityPoint {
+    t: number;
+    equity: number;
+    kind: 'start' | 'deposit' | 'withdrawal' | 'trade';
+}
+
+const num = (v: unknown) => (typeof v === 'number' ? v : parseNum(String(v ?? '')));
+const time = (v: unknown) => { const t = Date.parse(String(v ?? '')); return isNaN(t) ? null : t; };
+
+export const sameAccount = (a: string | undefined, b: string | undefined) => String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase();
+
+export const parseLedger = (raw: unknown): LedgerEntry[] => (Array.isArray(raw) ? raw : [])
+    .map(e => ({ date: String(e?.date ?? ''), amount: num(e?.amount), note: e?.note != null ? String(e.note) : undefined }))
+    .filter(e => time(e.date) != null && Number.isFinite(e.amount) && e.amount !== 0)
+    .map(e => (e.note ? e : { date: e.date, amount: e.amount }));
+
+// Accounts note frontmatter: accounts: [{ name, base_currency, starting_balance, started_at, risk_pct, template, ledger: [{ date, amount, note }] }]
+export const parseAccountsNote = (fm: Record<string, any> | undefined): Account[] => (Array.isArray(fm?.accounts) ? fm?.accounts ?? [] : [])
+    .filter((a: any) => a?.name)
+    .map((a: any) => {
+        const risk = num(a.risk_pct);
+        const start = num(a.starting_balance);
+        return {
+            name: String(a.name).trim(),
+            baseCurrency: String(a.base_currency ?? '').toUpperCase(),
+            startingBalance: Number.isFinite(start) ? start : 0,
+            startedAt: a.started_at != null ? String(a.started_at) : undefined,
+            riskPct: Number.isFinite(risk) && risk > 0 ? risk : null,
+            ledger: parseLedger(a.ledger),
+            ...(a.template ? { template: String(a.template).trim() } : {}),
+            source: 'note' as const,
+        };
+    });
+
+// Later sources override earlier ones with the same (case-insensitive) name.
+export const mergeAccounts = (...lists: Account[][]) => {
+    const byName = new Map<string, Account>();
+    lists.flat().forEach(a => byName.set(a.name.trim().toLowerCase(), a));
+    return Array.from(byName.values());
+};
+
+export const findAccount = (accounts: Account[], name?: string) => (name ? accounts.find(a => sameAccount(a.name, name)) ?? null : null);
+
+// Equity just before `at`: starting balance, ledger flows dated earlier and PnL of trades closed earlier.
+export const accountEquityAt = (account: Account, events: RealizedEvent[], at: number) => {
+    const flows = account.ledger.reduce((acc, e) => { const t = time(e.date) as number; return t < at ? acc + e.amount : acc; }, 0);
+    const pnl = events.reduce((acc, e) => (e.t < at ? acc + e.pnl : acc), 0);
+    return round(account.startingBalance + flows + pnl) ?? 0;
+};
+
+export const accountEquitySeries = (account: Account, events: RealizedEvent[]): EquityPoint[] => {
+    const steps: Array<{ t: number; delta: number; kind: EquityPoint['kind'] }> = [
+        ...account.ledger.map(e => ({ t: time(e.date) as number, delta: e.amount, kind: (e.amount > 0 ? 'deposit' : 'withdrawal') as EquityPoint['kind'] })),
+        ...events.map(e => ({ t: e.t, delta: e.pnl, kind: 'trade' as const })),
+    ].sort((a, b) => a.t - b.t);
+    const start = time(account.startedAt) ?? (steps.length ? steps[0].t : 0);
+    let equity = account.startingBalance;
+    const points: EquityPoint[] = [{ t: start, equity, kind: 'start' }];
+    for (const step of steps) {
+        equity += step.delta;
+        points.push({ t: step.t, equity: round(equity) ?? 0, kind: step.kind });
+    }
+    return points;
+};
+
+export const returnPct = (pnl: number | null | undefined, equity: number | null | undefined) =>
+    pnl != null && equity != null && equity > 0 ? round((pnl / equity) * 100, 4) : null;
+
+export interface AccountSummary {
+    equity: number;
+    contributed: number; // starting balance plus net deposits
+    pnl: number;
+    returnPct: number | null;
+}
+
+export const accountSummary = (account: Account, events: RealizedEvent[], at: number): AccountSummary => {
+    const contributed = round(account.startingBalance + account.ledger.reduce((acc, e) => ((time(e.date) as number) < at ? acc + e.amount : acc), 0)) ?? 0;
+    const pnl = round(events.reduce((acc, e) => (e.t < at ? acc + e.pnl : acc), 0)) ?? 0;
+    return { equity: round(contributed + pnl) ?? 0, contributed, pnl, returnPct: returnPct(pnl, contributed) };
+};
@@ -0,0 +1,186 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { CalendarDay, calendarMonth, calendarSummary, dailyPnl, dayOf, heatLevel } from './calendar';
+import { formatDateTimeInZone, getAvailableTimeZones, round } from './helpers';
+import { TradeRecord, reportedPnl } from './stats';
+
+export const VIEW_TYPE_CALENDAR = 'ace-calendar';
+
+export interface CalendarHost {
+	trades(): TradeRecord[]; // persisted metrics
+	openTrade(path: string): void;
+	timeZone(): string; // zone day boundaries are drawn in
+	setTimeZone(zone: string): Promise<void>;
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export class CalendarView extends ItemView {
+	private readonly host: CalendarHost;
+	private mode: 'month' | 'year' = 'month';
+	private year = new Date().getUTCFullYear();
+	private month = new Date().getUTCMonth() + 1;
+	private selected: CalendarDay | null = null;
+	private days = new Map<string, CalendarDay>();
+	private headerEl: HTMLElement | null = null;
+	private gridEl: HTMLElement | null = null;
+	private listEl: HTMLElement | null = null;
+
+	constructor(leaf: WorkspaceLeaf, host: CalendarHost) {
+		super(leaf);
+		this.host = host;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_CALENDAR;
+	}
+
+	getDisplayText(): string {
+		return 'PnL Calendar';
+	}
+
+	getIcon(): string {
+		return 'calendar';
+	}
+
+	async onOpen(): Promise<void> {
+		const container = this.containerEl;
+		container.empty();
+		container.addClass('ace-trade-pane');
+		const body = container.createDiv({ cls: 'ace-trade-pane-body' });
+		// Start on the current month as seen in the chosen zone.
+		const today = formatDateTimeInZone(new Date(), this.host.timeZone());
+		this.year = Number(today.slice(0, 4));
+		this.month = Number(today.slice(5, 7));
+		this.headerEl = body.createDiv({ cls: 'ace-trade-pane-section' });
+		this.gridEl = body.createDiv({ cls: 'ace-trade-pane-section' });
+		this.listEl = body.createDiv({ cls: 'ace-trade-pane-section' });
+		this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		/* no-op */
+	}
+
+	refresh(): void {
+		this.days = dailyPnl(this.host.trades(), this.host.timeZone());
+		if (this.selected) this.selected = this.days.get(this.selected.day) ?? null;
+		this.render();
+	}
+
+	private render(): void {
+		this.renderHeader();
+		this.renderGrid();
+		this.renderList();
+	}
+
+	private step(by: number): void {
+		if (this.mode === 'year') this.year += by;
+		else {
+			const m = this.year * 12 + (this.month - 1) + by;
+			this.year = Math.floor(m / 12);
+			this.month = (m % 12) + 1;
+		}
+		this.render();
+	}
+
+	private renderHeader(): void {
+		const el = this.headerEl;
+		if (!el) return;
+		el.empty();
+		const nav = el.createDiv({ cls: 'ace-calendar-nav' });
+		nav.createEl('button', { text: '‹' }).onclick = () => this.step(-1);
+		nav.createEl('h2', { text: this.mode === 'year' ? String(this.year) : `${MONTHS[this.month - 1]} ${this.year}` });
+		nav.createEl('button', { text: '›' }).onclick = () => this.step(1);
+
+		const mode = nav.createEl('select', { cls: 'dropdown' });
+		mode.createEl('option', { text: 'Month', value: 'month' });
+		mode.createEl('option', { text: 'Year', value: 'year' });
+		mode.value = this.mode;
+		mode.onchange = () => { this.mode = mode.value as 'month' | 'year'; this.render(); };
+
+		const zone = nav.createEl('select', { cls: 'dropdown' });
+		const zones = getAvailableTimeZones();
+		const current = this.host.timeZone();
+		(zones.includes(current) ? zones : [current, ...zones]).forEach(z => zone.createEl('option', { text: z, value: z }));
+		zone.value = current;
+		zone.onchange = async () => { await this.host.setTimeZone(zone.value); this.refresh(); };
+
+		const from = this.mode === 'year' ? dayOf(this.year, 1, 1) : dayOf(this.year, this.month, 1);
+		const to = this.mode === 'year' ? dayOf(this.year, 12, 31) : dayOf(this.year, this.month, 31);
+		const summary = calendarSummary(this.days, from, to);
+		el.createDiv({
+			cls: 'ace-calendar-summary',
+			text: `Realized ${summary.total} from ${summary.trades} trade${summary.trades === 1 ? '' : 's'} · ${summary.winningDays} winning day${summary.winningDays === 1 ? '' : 's'}, ${summary.losingDays} losing day${summary.losingDays === 1 ? '' : 's'}`,
+		});
+	}
+
+	private renderGrid(): void {
+		const el = this.gridEl;
+		if (!el) return;
+		el.empty();
+		const months = this.mode === 'year' ? MONTHS.map((_, i) => i + 1) : [this.month];
+		const weeksByMonth = months.map(m => ({ month: m, weeks: calendarMonth(this.year, m, this.days) }));
+		// One colour scale for everything on screen so months in the year view compare.
+		const maxAbs = Math.max(0, ...weeksByMonth.flatMap(m => m.weeks.flatMap(w => w.days.filter(d => d.inMonth).map(d => Math.abs(d.pnl)))));
+		const wrap = el.createDiv({ cls: this.mode === 'year' ? 'ace-calendar-year' : '' });
+		for (const { month, weeks } of weeksByMonth) {
+			const box = wrap.createDiv();
+			const monthTotal = round(weeks.flatMap(w => w.days).filter(d => d.inMonth).reduce((acc, d) => acc + d.pnl, 0));
+			if (this.mode === 'year') {
+				const title = box.createEl('h4', { text: `${MONTHS[month - 1]} · ${monthTotal}` });
+				title.addClass('ace-calendar-month-title');
+				title.onclick = () => { this.mode = 'month'; this.month = month; this.render(); };
+			}
+			const table = box.createEl('table', { cls: 'ace-calendar' });
+			const headerRow = table.createEl('thead').createEl('tr');
+			WEEKDAYS.forEach(d => headerRow.createEl('th', { text: this.mode === 'year' ? d.charAt(0) : d }));
+			if (this.mode === 'month') headerRow.createEl('th', { text: 'Week' });
+			const tbody = table.createEl('tbody');
+			for (const week of weeks) {
+				const tr = tbody.createEl('tr');
+				for (const day of week.days) {
+					const td = tr.createEl('td', { cls: 'ace-calendar-day' });
+					// The year view leaves neighbouring months' days blank; the month view shows them muted.
+					if (!day.inMonth && this.mode === 'year') { td.addClass('is-empty'); continue; }
+					if (!day.inMonth) td.addClass('is-outside');
+					const level = heatLevel(day.pnl, maxAbs);
+					if (level) td.addClasses([day.pnl > 0 ? 'is-positive' : 'is-negative', `ace-heat-${level}`]);
+					if (this.selected?.day === day.day) td.addClass('is-selected');
+					td.createDiv({ cls: 'ace-calendar-date', text: String(Number(day.day.slice(8))) });
+					if (this.mode === 'month' && day.trades.length) td.createDiv({ cls: 'ace-calendar-pnl', text: String(day.pnl) });
+					td.title = day.trades.length ? `${day.day}: ${day.pnl} from ${day.trades.length} trade${day.trades.length === 1 ? '' : 's'}` : day.day;
+					td.onclick = () => { this.selected = day; this.renderGrid(); this.renderList(); };
+				}
+				if (this.mode === 'month') tr.createEl('td', { cls: 'ace-calendar-week', text: week.days.some(d => d.trades.length) ? String(week.total) : '' });
+			}
+		}
+	}
+
+	private renderList(): void {
+		const el = this.listEl;
+		if (!el) return;
+		el.empty();
+		const day = this.selected;
+		if (!day) return;
+		el.createEl('h3', { text: `${day.day} — ${day.trades.length} trade${day.trades.length === 1 ? '' : 's'}` });
+		if (!day.trades.length) {
+			el.createSpan({ text: 'No trades closed this day.' });
+			return;
+		}
+		const zone = this.host.timeZone();
+		const table = el.createEl('table', { cls: 'ace-trade-fills' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		['Trade', 'Pair', 'Closed', 'PnL', 'R'].forEach(h => headerRow.createEl('th', { text: h }));
+		const tbody = table.createEl('tbody');
+		for (const r of day.trades) {
+			const tr = tbody.createEl('tr');
+			const link = tr.createEl('td').createEl('a', { text: r.name });
+			link.onclick = () => this.host.openTrade(r.path);
+			tr.createEl('td', { text: String(r.fm.pair ?? '') });
+			tr.createEl('td', { text: formatDateTimeInZone(new Date(String(r.fm.closed_at)), zone).slice(11) });
+			tr.createEl('td', { text: String(reportedPnl(r)) });
+			tr.createEl('td', { text: r.metrics.r_multiple != null ? String(r.metrics.r_multiple) : '—' });
+		}
+	}
+}
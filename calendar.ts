@@ -0,0 +1,75 @@
+import { formatDateTimeInZone, pad, round } from './helpers';
+import { TradeRecord, closedInOrder, reportedPnl } from './stats';
+
+export interface CalendarDay {
+    day: string; // YYYY-MM-DD in the calendar's zone
+    pnl: number;
+    trades: TradeRecord[];
+}
+
+export interface CalendarCell extends CalendarDay {
+    inMonth: boolean; // false for the neighbouring months' days that fill the first and last week
+}
+
+export interface CalendarWeek {
+    days: CalendarCell[]; // Monday first
+    total: number; // all seven days, including those outside the month
+}
+
+export interface CalendarSummary {
+    total: number;
+    trades: number;
+    winningDays: number;
+    losingDays: number;
+}
+
+// Closed trades by the day of closed_at in `timeZone`; PnL is realized_pnl, in the reporting currency once converted.
+export const dailyPnl = (records: TradeRecord[], timeZone: string) => {
+    const days = new Map<string, CalendarDay>();
+    for (const r of closedInOrder(records)) {
+        const t = Date.parse(String(r.fm.closed_at ?? ''));
+        if (isNaN(t)) continue;
+        const day = formatDateTimeInZone(new Date(t), timeZone).slice(0, 10);
+        const entry = days.get(day) ?? { day, pnl: 0, trades: [] };
+        entry.pnl = round(entry.pnl + Number(reportedPnl(r))) ?? 0;
+        entry.trades.push(r);
+        days.set(day, entry);
+    }
+    return days;
+};
+
+export const dayOf = (year: number, month: number, date: number) => `${year}-${pad(month)}-${pad(date)}`;
+
+// Whole Monday-first weeks covering `month` (1-12), so weekly totals are never partial.
+export const calendarMonth = (year: number, month: number, days: Map<string, CalendarDay>): CalendarWeek[] => {
+    const length = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const lead = (new Date(Date.UTC(year, month - 1, 1)).getUTCDay() + 6) % 7;
+    const count = Math.ceil((lead + length) / 7) * 7;
+    const cells: CalendarCell[] = [];
+    for (let i = 0; i < count; i++) {
+        // Date.UTC rolls day 0 and below into the previous month and past the end into the next.
+        const d = new Date(Date.UTC(year, month - 1, i - lead + 1));
+        const day = dayOf(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+        cells.push({ ...(days.get(day) ?? { day, pnl: 0, trades: [] }), inMonth: d.getUTCMonth() === month - 1 });
+    }
+    const weeks: CalendarWeek[] = [];
+    for (let i = 0; i < cells.length; i += 7) {
+        const week = cells.slice(i, i + 7);
+        weeks.push({ days: week, total: round(week.reduce((acc, d) => acc + d.pnl, 0)) ?? 0 });
+    }
+    return weeks;
+};
+
+// Days from `from` to `to` inclusive, both YYYY-MM-DD.
+export const calendarSummary = (days: Map<string, CalendarDay>, from: string, to: string): CalendarSummary => {
+    const inRange = Array.from(days.values()).filter(d => d.day >= from && d.day <= to);
+    return {
+        total: round(inRange.reduce((acc, d) => acc + d.pnl, 0)) ?? 0,
+        trades: inRange.reduce((acc, d) => acc + d.trades.length, 0),
+        winningDays: inRange.filter(d => d.pnl > 0).length,
+        losingDays: inRange.filter(d => d.pnl < 0).length,
+    };
+};
+
+// Colour step 1-4 relative to the largest day on screen; 0 for flat days.
+export const heatLevel = (pnl: number, maxAbs: number) => (pnl && maxAbs ? Math.min(4, Math.ceil((Math.abs(pnl) / maxAbs) * 4)) : 0);
@@ -0,0 +1,74 @@
+import { parseCsv, parseNum, tradeDirection } from './helpers';
+import type { TradeFrontmatter } from './schema';
+import { parseImportTime } from './importer';
+
+export interface Candle {
+    t: number; // open time, ms UTC
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+const TIME_HEADERS = ['time', 'timestamp', 'date', 'datetime', 'open_time', 't'];
+const col = (header: string[], names: string[]) => header.findIndex(h => names.includes(h));
+
+// CSV with time,open,high,low,close columns (any order when there is a header; extra columns ignored).
+export const parseCandles = (text: string): Candle[] => {
+    const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (!rows.length) return [];
+    const header = rows[0].map(h => h.trim().toLowerCase());
+    let cols = [col(header, TIME_HEADERS), col(header, ['open', 'o']), col(header, ['high', 'h']), col(header, ['low', 'l']), col(header, ['close', 'c'])];
+    const hasHeader = cols.every(c => c >= 0);
+    if (!hasHeader) cols = [0, 1, 2, 3, 4];
+    const candles: Candle[] = [];
+    for (const row of hasHeader ? rows.slice(1) : rows) {
+        const t = parseImportTime(row[cols[0]] ?? '', 'UTC');
+        const [open, high, low, close] = cols.slice(1).map(c => parseNum(row[c]));
+        if (!t || ![open, high, low, close].every(Number.isFinite) || high < low) continue;
+        candles.push({ t: t.getTime(), open, high, low, close });
+    }
+    return candles.sort((a, b) => a.t - b.t);
+};
+
+// Smallest gap between candles, taken as the file's timeframe.
+export const candleInterval = (candles: Candle[]) => candles.reduce((min, c, i) => {
+    const gap = i ? c.t - candles[i - 1].t : 0;
+    return gap > 0 && gap < min ? gap : min;
+}, Infinity);
+
+// High and low of the candles overlapping [from, to]; the bar holding `from` counts in full.
+export const priceRange = (candles: Candle[], from: number, to: number | null = null) => {
+    const interval = candleInterval(candles);
+    const span = Number.isFinite(interval) ? interval : 0;
+    const inside = candles.filter(c => c.t + span > from && (to == null || c.t <= to));
+    if (!inside.length) return null;
+    return { high: Math.max(...inside.map(c => c.high)), low: Math.min(...inside.map(c => c.low)) };
+};
+
+// Several files may cover a pair (e.g. 1h and 1d); the finest one with data in the window wins.
+export const bestPriceRange = (sets: Candle[][], from: number, to: number | null = null) => {
+    const ordered = [...sets].sort((a, b) => candleInterval(a) - candleInterval(b));
+    for (const candles of ordered) {
+        const range = priceRange(candles, from, to);
+        if (range) return range;
+    }
+    return null;
+};
+
+// A pair's file is named after it, optionally separated and followed by a timeframe: BTCUSDT-1h, btc_usdt.
+// BTC/USD must not pick up BTCUSDT-1h, so the quote has to end the name or be followed by a separator.
+export const isCandleFileFor = (basename: string, pair: { base: string; quote: string }) => {
+    if (!pair.base) return false;
+    const esc = (v: string) => v.toUpperCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^${esc(pair.base)}[-_ ]?${esc(pair.quote)}(?:$|[-_ .@])`).test(basename.toUpperCase());
+};
+
+// The high/low implied by a trade's saved excursions, used until its candle files are read again.
+export const savedPriceRange = (fm?: Partial<TradeFrontmatter>) => {
+    const m = fm?.metrics;
+    if (m?.avg_entry == null || m.mae_price == null || m.mfe_price == null) return null;
+    const entry = Number(m.avg_entry), mae = Number(m.mae_price), mfe = Number(m.mfe_price);
+    if (![entry, mae, mfe].every(Number.isFinite)) return null;
+    return tradeDirection(fm ?? {}) > 0 ? { high: entry + mfe, low: entry - mae } : { high: entry + mae, low: entry - mfe };
+};
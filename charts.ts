@@ -0,0 +1,105 @@
+import { round } from './helpers';
+import { TradeRecord, closedInOrder, reportedPnl, tradeDate } from './stats';
+
+export interface EquityPoint {
+    t: number;
+    equity: number;
+    record: TradeRecord;
+}
+
+export interface RBin {
+    from: number;
+    to: number;
+    trades: TradeRecord[];
+}
+
+export const equitySeries = (records: TradeRecord[]): EquityPoint[] => {
+    let equity = 0;
+    return closedInOrder(records)
+        .filter(r => tradeDate(r) != null)
+        .map(record => {
+            equity += Number(reportedPnl(record) ?? 0);
+            return { t: tradeDate(record) as number, equity: round(equity) ?? 0, record };
+        });
+};
+
+export const rHistogram = (records: TradeRecord[], width = 0.5): RBin[] => {
+    const withR = records.filter(r => r.metrics.r_multiple != null && Number.isFinite(Number(r.metrics.r_multiple)));
+    if (!withR.length) return [];
+    const rs = withR.map(r => Number(r.metrics.r_multiple));
+    const lo = Math.floor(Math.min(...rs) / width) * width;
+    const hi = Math.floor(Math.max(...rs) / width) * width;
+    const bins: RBin[] = [];
+    for (let from = lo; from <= hi + 1e-9; from += width) bins.push({ from: round(from, 6) ?? 0, to: round(from + width, 6) ?? 0, trades: [] });
+    withR.forEach((r, i) => bins[Math.min(bins.length - 1, Math.floor((rs[i] - lo) / width + 1e-9))].trades.push(r));
+    return bins;
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const W = 600, H = 220, PAD = 32;
+
+const svgEl = <K extends keyof SVGElementTagNameMap>(parent: Element, tag: K, attrs: Record<string, string | number>) => {
+    const node = document.createElementNS(SVG_NS, tag);
+    Object.entries(attrs).forEach(([k, v]) => node.setAttribute(k, String(v)));
+    parent.appendChild(node);
+    return node;
+};
+
+const svgRoot = (el: HTMLElement, label: string) => svgEl(el, 'svg', { viewBox: `0 0 ${W} ${H}`, class: 'ace-chart', role: 'img', 'aria-label': label });
+
+const tooltip = (node: SVGElement, text: string) => {
+    svgEl(node, 'title', {}).textContent = text;
+};
+
+// Cumulative realized PnL over close time; each point links to its trade.
+export const renderEquityCurve = (el: HTMLElement, points: EquityPoint[], onOpen: (path: string) => void) => {
+    if (!points.length) {
+        el.createSpan({ text: 'No closed trades to chart.' });
+        return;
+    }
+    const svg = svgRoot(el, 'Equity curve');
+    const t0 = points[0].t, t1 = points[points.length - 1].t;
+    const ys = [0, ...points.map(p => p.equity)];
+    const y0 = Math.min(...ys), y1 = Math.max(...ys);
+    const x = (t: number) => PAD + (t1 === t0 ? (W - 2 * PAD) / 2 : ((t - t0) / (t1 - t0)) * (W - 2 * PAD));
+    const y = (v: number) => H - PAD - (y1 === y0 ? (H - 2 * PAD) / 2 : ((v - y0) / (y1 - y0)) * (H - 2 * PAD));
+
+    svgEl(svg, 'line', { x1: PAD, x2: W - PAD, y1: y(0), y2: y(0), class: 'ace-chart-axis' });
+    svgEl(svg, 'text', { x: 2, y: y(y1) + 4, class: 'ace-chart-label' }).textContent = String(round(y1, 2));
+    svgEl(svg, 'text', { x: 2, y: y(y0) + 4, class: 'ace-chart-label' }).textContent = String(round(y0, 2));
+    svgEl(svg, 'text', { x: PAD, y: H - 8, class: 'ace-chart-label' }).textContent = new Date(t0).toISOString().slice(0, 10);
+    svgEl(svg, 'text', { x: W - PAD, y: H - 8, class: 'ace-chart-label', 'text-anchor': 'end' }).textContent = new Date(t1).toISOString().slice(0, 10);
+    svgEl(svg, 'polyline', { points: points.map(p => `${x(p.t)},${y(p.equity)}`).join(' '), class: 'ace-chart-line' });
+
+    for (const p of points) {
+        const dot = svgEl(svg, 'circle', { cx: x(p.t), cy: y(p.equity), r: 4, class: 'ace-chart-point' });
+        const pnl = reportedPnl(p.record);
+        tooltip(dot, `${p.record.name}\n${new Date(p.t).toISOString().slice(0, 10)}  PnL ${pnl}  cum ${p.equity}`);
+        dot.addEventListener('click', () => onOpen(p.record.path));
+    }
+};
+
+// One bar per R bucket; hovering lists the bucket's trades, clicking a single-trade bar opens it.
+export const renderRHistogram = (el: HTMLElement, bins: RBin[], onOpen: (path: string) => void, onSelect?: (bin: RBin) => void) => {
+    if (!bins.length) {
+        el.createSpan({ text: 'No trades with an R multiple to chart.' });
+        return;
+    }
+    const svg = svgRoot(el, 'R-multiple distribution');
+    const max = Math.max(...bins.map(b => b.trades.length));
+    const bw = (W - 2 * PAD) / bins.length;
+    bins.forEach((bin, i) => {
+        const h = max ? (bin.trades.length / max) * (H - 2 * PAD) : 0;
+        const bar = svgEl(svg, 'rect', {
+            x: PAD + i * bw + 1, y: H - PAD - h, width: Math.max(1, bw - 2), height: h,
+            class: `ace-chart-bar ${bin.from >= 0 ? 'is-positive' : 'is-negative'}`,
+        });
+        tooltip(bar, `${bin.from}R to ${bin.to}R: ${bin.trades.length}\n${bin.trades.map(t => `${t.name} (${t.metrics.r_multiple}R)`).join('\n')}`);
+        bar.addEventListener('click', () => {
+            if (bin.trades.length === 1) onOpen(bin.trades[0].path);
+            else onSelect?.(bin);
+        });
+        svgEl(svg, 'text', { x: PAD + i * bw + bw / 2, y: H - 8, class: 'ace-chart-label', 'text-anchor': 'middle' }).textContent = String(bin.from);
+    });
+    svgEl(svg, 'text', { x: 2, y: PAD, class: 'ace-chart-label' }).textContent = String(max);
+};
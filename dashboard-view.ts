@@ -0,0 +1,239 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { TradeFilter, TradeRecord, Stat, aggregateTrades, filterTrades, missingFx, NEAR_STOP_R, reportedPnl, statsBySetup, tradeDate } from './stats';
+import { equitySeries, rHistogram, renderEquityCurve, renderRHistogram } from './charts';
+import { AccountSummary } from './accounts';
+import { round, tradePair } from './helpers';
+
+export const VIEW_TYPE_DASHBOARD = 'ace-dashboard';
+
+export interface DashboardHost {
+	collectTrades(): TradeRecord[];
+	persistedTrades(): TradeRecord[]; // the saved metrics blocks, as ace-chart blocks read them
+	openTrade(path: string): void;
+	accountSummary(name: string): AccountSummary | null;
+}
+
+type StatRow = [label: string, stat: Stat, format: (v: number) => string];
+
+const fmtNum = (v: number) => String(v);
+const fmtPct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+export class DashboardView extends ItemView {
+	private readonly host: DashboardHost;
+	private filter: TradeFilter = {};
+	private records: TradeRecord[] = [];
+	private selection: { label: string; trades: TradeRecord[] } | null = null;
+	private filtersEl: HTMLElement | null = null;
+	private statsEl: HTMLElement | null = null;
+	private chartsEl: HTMLElement | null = null;
+	private listEl: HTMLElement | null = null;
+
+	constructor(leaf: WorkspaceLeaf, host: DashboardHost) {
+		super(leaf);
+		this.host = host;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_DASHBOARD;
+	}
+
+	getDisplayText(): string {
+		return 'Trading Dashboard';
+	}
+
+	getIcon(): string {
+		return 'bar-chart-2';
+	}
+
+	async onOpen(): Promise<void> {
+		const container = this.containerEl;
+		container.empty();
+		container.addClass('ace-trade-pane');
+		const body = container.createDiv({ cls: 'ace-trade-pane-body' });
+		body.createDiv({ cls: 'ace-trade-pane-header' }).createEl('h2', { text: 'Performance' });
+		this.filtersEl = body.createDiv({ cls: 'ace-trade-pane-section ace-dashboard-filters' });
+		this.statsEl = body.createDiv({ cls: 'ace-trade-pane-section' });
+		this.chartsEl = body.createDiv({ cls: 'ace-trade-pane-section' });
+		this.listEl = body.createDiv({ cls: 'ace-trade-pane-section' });
+		this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		/* no-op */
+	}
+
+	refresh(): void {
+		this.records = this.host.collectTrades();
+		this.renderFilters();
+		this.renderStats();
+	}
+
+	private renderFilters(): void {
+		const el = this.filtersEl;
+		if (!el) return;
+		el.empty();
+		el.createEl('h3', { text: 'Filters' });
+
+		const row = (label: string) => {
+			const wrap = el.createDiv({ cls: 'ace-dashboard-filter' });
+			wrap.createSpan({ text: label });
+			return wrap;
+		};
+		const dateInput = (label: string, key: 'from' | 'to') => {
+			const input = row(label).createEl('input', { type: 'date' });
+			input.value = this.filter[key] ?? '';
+			input.onchange = () => { this.filter[key] = input.value || undefined; this.renderStats(); };
+		};
+		const select = (label: string, key: 'pair' | 'account' | 'setup', options: string[]) => {
+			const sel = row(label).createEl('select', { cls: 'dropdown' });
+			sel.createEl('option', { text: 'All', value: '' });
+			options.forEach(o => sel.createEl('option', { text: o, value: o }));
+			sel.value = this.filter[key] ?? '';
+			sel.onchange = () => { this.filter[key] = sel.value || undefined; this.renderStats(); };
+		};
+		const distinct = (pick: (r: TradeRecord) => unknown) =>
+			Array.from(new Set(this.records.map(r => String(pick(r) ?? '').trim()).filter(Boolean))).sort();
+
+		dateInput('From', 'from');
+		dateInput('To', 'to');
+		select('Pair', 'pair', distinct(r => r.fm.pair));
+		select('Account', 'account', distinct(r => r.fm.account));
+		select('Setup', 'setup', distinct(r => r.fm.setup));
+		const tags = row('Tags').createEl('input', { type: 'text', placeholder: 'all of: tag1 tag2' });
+		tags.value = (this.filter.tags ?? []).join(' ');
+		tags.onchange = () => { this.filter.tags = tags.value.split(/[\s,]+/).filter(Boolean); this.renderStats(); };
+	}
+
+	private renderStats(): void {
+		const el = this.statsEl;
+		if (!el) return;
+		el.empty();
+		el.createEl('h3', { text: 'Summary' });
+
+		const filtered = filterTrades(this.records, this.filter);
+		const stats = aggregateTrades(filtered);
+		const rows: StatRow[] = [
+			['Trades', stats.count, fmtNum],
+			['Open', stats.open, fmtNum],
+			['Closed', stats.closed, fmtNum],
+			['Win Rate', stats.winRate, fmtPct],
+			['Avg Win', stats.avgWin, fmtNum],
+			['Avg Loss', stats.avgLoss, fmtNum],
+			['Expectancy', stats.expectancy, fmtNum],
+			['Profit Factor', stats.profitFactor, fmtNum],
+			['Avg R', stats.avgR, fmtNum],
+			['Total Realized PnL', stats.totalPnl, fmtNum],
+			['Max Drawdown', stats.maxDrawdown, fmtNum],
+			['Longest Losing Streak', stats.longestLosingStreak, fmtNum],
+		];
+		if (stats.avgMaeR.trades.length) {
+			rows.push(
+				['Avg MAE (R)', stats.avgMaeR, fmtNum],
+				['Avg MFE (R)', stats.avgMfeR, fmtNum],
+				['Left on the Table (avg R)', stats.avgLeftR, fmtNum],
+				[`Came Within ${round((1 - NEAR_STOP_R) * 100)}% of Stop`, stats.nearStop, fmtNum],
+			);
+		}
+		if (stats.missingFx.value) rows.push(['Missing FX Rate', stats.missingFx, fmtNum]);
+
+		const tbody = el.createEl('table', { cls: 'ace-trade-metrics' }).createEl('tbody');
+		for (const [label, stat, format] of rows) {
+			const tr = tbody.createEl('tr');
+			tr.createEl('th', { text: label });
+			const td = tr.createEl('td');
+			const link = td.createEl('a', { text: stat.value != null ? format(stat.value) : '—', cls: 'ace-dashboard-stat' });
+			link.onclick = () => { this.selection = { label, trades: stat.trades }; this.renderList(); };
+		}
+		const account = this.filter.account ? this.host.accountSummary(this.filter.account) : null;
+		if (account) {
+			const summary = el.createEl('table', { cls: 'ace-trade-metrics' }).createEl('tbody');
+			const accountRows: Array<[string, string]> = [
+				['Account Equity', fmtNum(account.equity)],
+				['Capital Contributed', fmtNum(account.contributed)],
+				['Return % of Account', account.returnPct != null ? `${account.returnPct}%` : '—'],
+			];
+			for (const [label, value] of accountRows) {
+				const tr = summary.createEl('tr');
+				tr.createEl('th', { text: label });
+				tr.createEl('td', { text: value });
+			}
+		}
+		this.renderSetups(el, filtered);
+		if (this.selection) {
+			const current = rows.find(([label]) => label === this.selection?.label);
+			if (current) this.selection = { label: current[0], trades: current[1].trades };
+		}
+		this.renderCharts(filterTrades(this.host.persistedTrades(), this.filter));
+		this.renderList();
+	}
+
+	// Win rate, expectancy and average R side by side for each setup; a figure lists its trades.
+	private renderSetups(el: HTMLElement, records: TradeRecord[]): void {
+		const groups = statsBySetup(records);
+		if (!groups.some(g => g.setup)) return;
+		el.createEl('h3', { text: 'By Setup' });
+		const table = el.createEl('table', { cls: 'ace-trade-fills' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		['Setup', 'Closed', 'Win Rate', 'Expectancy', 'Avg R', 'Total PnL'].forEach(h => headerRow.createEl('th', { text: h }));
+		const tbody = table.createEl('tbody');
+		for (const { setup, stats } of groups) {
+			const tr = tbody.createEl('tr');
+			const name = setup || 'No setup';
+			tr.createEl('td', { text: name });
+			const cells: StatRow[] = [
+				['Closed', stats.closed, fmtNum],
+				['Win Rate', stats.winRate, fmtPct],
+				['Expectancy', stats.expectancy, fmtNum],
+				['Avg R', stats.avgR, fmtNum],
+				['Total PnL', stats.totalPnl, fmtNum],
+			];
+			for (const [label, stat, format] of cells) {
+				const link = tr.createEl('td').createEl('a', { text: stat.value != null ? format(stat.value) : '—', cls: 'ace-dashboard-stat' });
+				link.onclick = () => { this.selection = { label: `${name}: ${label}`, trades: stat.trades }; this.renderList(); };
+			}
+		}
+	}
+
+	// Charts read the saved metrics so they match the same chart embedded in a note.
+	private renderCharts(records: TradeRecord[]): void {
+		const el = this.chartsEl;
+		if (!el) return;
+		el.empty();
+		el.createEl('h3', { text: 'Equity Curve' });
+		renderEquityCurve(el.createDiv(), equitySeries(records), (path) => this.host.openTrade(path));
+		el.createEl('h3', { text: 'R Distribution' });
+		renderRHistogram(el.createDiv(), rHistogram(records), (path) => this.host.openTrade(path), (bin) => {
+			this.selection = { label: `${bin.from}R to ${bin.to}R`, trades: bin.trades };
+			this.renderList();
+		});
+	}
+
+	private renderList(): void {
+		const el = this.listEl;
+		if (!el) return;
+		el.empty();
+		const selection = this.selection;
+		if (!selection) return;
+		el.createEl('h3', { text: `${selection.label} — ${selection.trades.length} trade${selection.trades.length === 1 ? '' : 's'}` });
+		if (!selection.trades.length) {
+			el.createSpan({ text: 'No trades.' });
+			return;
+		}
+		const table = el.createEl('table', { cls: 'ace-trade-fills' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		['Trade', 'Date', 'PnL', 'R', 'MAE R', 'MFE R'].forEach(h => headerRow.createEl('th', { text: h }));
+		const tbody = table.createEl('tbody');
+		for (const r of selection.trades) {
+			const tr = tbody.createEl('tr');
+			const link = tr.createEl('td').createEl('a', { text: r.name });
+			link.onclick = () => this.host.openTrade(r.path);
+			const t = tradeDate(r);
+			tr.createEl('td', { text: t != null ? new Date(t).toISOString().slice(0, 10) : '' });
+			const pnl = reportedPnl(r);
+			tr.createEl('td', { text: missingFx(r) ? `${r.metrics.realized_pnl} ${tradePair(r.fm).quote} (no FX rate)` : pnl != null ? String(pnl) : '—' });
+			tr.createEl('td', { text: r.metrics.r_multiple != null ? String(r.metrics.r_multiple) : '—' });
+			tr.createEl('td', { text: r.metrics.mae_r != null ? String(r.metrics.mae_r) : '—' });
+			tr.createEl('td', { text: r.metrics.mfe_r != null ? String(r.metrics.mfe_r) : '—' });
+		}
+	}
+}
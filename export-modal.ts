@@ -0,0 +1,110 @@
+import { App, ExtraButtonComponent, Modal, Setting } from 'obsidian';
+import { EXPORT_COLUMNS, ExportFormat, ExportOptions, ExportRows, knownColumns } from './export';
+
+export interface ExportModalOptions {
+	initial: ExportOptions;
+	count(opts: ExportOptions): number; // trades matching the filters
+	onExport(opts: ExportOptions): Promise<void>;
+}
+
+// Filters, format and column order for Export Trades; the chosen options are handed back to be remembered.
+export class ExportModal extends Modal {
+	private readonly opts: ExportModalOptions;
+	private current: ExportOptions;
+	private columnsEl: HTMLElement | null = null;
+	private summaryEl: HTMLElement | null = null;
+
+	constructor(app: App, opts: ExportModalOptions) {
+		super(app);
+		this.opts = opts;
+		const initial = opts.initial;
+		this.current = { ...initial, columns: { trades: [...initial.columns.trades], fills: [...initial.columns.fills], setups: [...initial.columns.setups] } };
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('ace-export-modal');
+		contentEl.createEl('h3', { text: 'Export Trades' });
+
+		const text = (key: 'folder' | 'from' | 'to' | 'tags' | 'path', label: string, placeholder = '', desc = '') => new Setting(contentEl)
+			.setName(label)
+			.setDesc(desc)
+			.addText(t => t.setPlaceholder(placeholder).setValue(this.current[key]).onChange(v => { this.current[key] = v.trim(); this.renderSummary(); }));
+
+		text('folder', 'Folder', 'All trades');
+		text('from', 'From', 'YYYY-MM-DD');
+		text('to', 'To', 'YYYY-MM-DD');
+		text('tags', 'Tags', 'all must match');
+		new Setting(contentEl)
+			.setName('Rows')
+			.addDropdown(d => d
+				.addOption('trades', 'One per trade')
+				.addOption('fills', 'One per fill')
+				.addOption('setups', 'One per setup')
+				.setValue(this.current.rows)
+				.onChange(v => { this.current.rows = v as ExportRows; this.renderColumns(); }));
+		new Setting(contentEl)
+			.setName('Format')
+			.addDropdown(d => d
+				.addOption('csv', 'CSV')
+				.addOption('json', 'JSON')
+				.setValue(this.current.format)
+				.onChange(v => { this.current.format = v as ExportFormat; this.renderSummary(); }));
+		text('path', 'Save to', 'Trading/Exports/trades', 'Vault path; the extension follows the format');
+
+		contentEl.createEl('h4', { text: 'Columns' });
+		this.columnsEl = contentEl.createDiv({ cls: 'ace-export-columns' });
+		this.summaryEl = contentEl.createDiv({ cls: 'ace-export-summary' });
+		this.renderColumns();
+
+		new Setting(contentEl)
+			.addButton(b => b.setButtonText('Cancel').onClick(() => this.close()))
+			.addButton(b => b.setCta().setButtonText('Export').onClick(async () => {
+				b.setDisabled(true);
+				await this.opts.onExport(this.current);
+				this.close();
+			}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	// Selected columns first in export order, then the rest.
+	private renderColumns(): void {
+		const el = this.columnsEl;
+		if (!el) return;
+		el.empty();
+		const rows = this.current.rows;
+		const selected = knownColumns(rows, this.current.columns[rows]);
+		this.current.columns[rows] = selected;
+		const rest = EXPORT_COLUMNS[rows].filter(c => !selected.includes(c));
+		const move = (i: number, by: number) => {
+			const j = i + by;
+			if (j < 0 || j >= selected.length) return;
+			[selected[i], selected[j]] = [selected[j], selected[i]];
+			this.renderColumns();
+		};
+		[...selected, ...rest].forEach((column, i) => {
+			const row = el.createDiv({ cls: 'ace-export-column' });
+			const box = row.createEl('input', { type: 'checkbox' });
+			box.checked = i < selected.length;
+			box.onchange = () => {
+				this.current.columns[rows] = box.checked ? [...selected, column] : selected.filter(c => c !== column);
+				this.renderColumns();
+			};
+			row.createSpan({ text: column });
+			if (i >= selected.length) return;
+			new ExtraButtonComponent(row).setIcon('arrow-up').setTooltip('Move up').setDisabled(i === 0).onClick(() => move(i, -1));
+			new ExtraButtonComponent(row).setIcon('arrow-down').setTooltip('Move down').setDisabled(i === selected.length - 1).onClick(() => move(i, 1));
+		});
+		this.renderSummary();
+	}
+
+	private renderSummary(): void {
+		const count = this.opts.count(this.current);
+		const columns = this.current.columns[this.current.rows].length;
+		this.summaryEl?.setText(`${count} trade${count === 1 ? '' : 's'} match, ${columns} column${columns === 1 ? '' : 's'} → ${this.current.path}.${this.current.format}`);
+	}
+}
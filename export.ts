@@ -0,0 +1,140 @@
+import type { Fill } from './schema';
+import { SetupStats, TradeRecord, filterTrades, missingFx, reportedPnl, statsBySetup } from './stats';
+
+export type ExportFormat = 'csv' | 'json';
+export type ExportRows = 'trades' | 'fills' | 'setups';
+
+// Everything the export modal asks for; saved in settings so the next run starts from it.
+export interface ExportOptions {
+    folder: string;
+    from: string; // YYYY-MM-DD
+    to: string;
+    tags: string;
+    rows: ExportRows;
+    format: ExportFormat;
+    path: string; // vault path without extension
+    columns: Record<ExportRows, string[]>;
+}
+
+export type Value = string | number | boolean | null | string[];
+type Getter<T> = (row: T) => Value;
+
+const fmValue = (key: string): Getter<TradeRecord> => (r) => {
+    const v = (r.fm as Record<string, unknown>)[key];
+    if (v == null || typeof v === 'object' && !Array.isArray(v)) return null;
+    return Array.isArray(v) ? v.map(String) : v as Value;
+};
+const metricValue = (key: string): Getter<TradeRecord> => (r) => {
+    const v = (r.metrics as unknown as Record<string, unknown>)[key];
+    return v == null ? null : Array.isArray(v) ? v.map(String) : v as Value;
+};
+
+const TRADE_GETTERS: Record<string, Getter<TradeRecord>> = {
+    path: r => r.path,
+    name: r => r.name,
+    ...Object.fromEntries(['id', 'pair', 'action', 'account', 'setup', 'quote', 'tags', 'timestamp', 'closed_at', 'initial_stop', 'lesson', 'cost_basis', 'mark', 'leverage', 'margin_mode'].map(k => [k, fmValue(k)])),
+    ...Object.fromEntries([
+        'status', 'position', 'avg_entry', 'avg_exit', 'realized_pnl', 'gross_pnl', 'net_pnl', 'fees_total', 'carry_total', 'r_multiple', 'win',
+        'return_pct', 'account_equity', 'initial_margin', 'return_on_margin', 'liquidation_price', 'reporting_currency', 'fx_rate', 'realized_pnl_reporting', 'current_stop', 'initial_risk',
+        'locked_r', 'mae_r', 'mfe_r', 'mae_quote', 'mfe_quote', 'planned_rr', 'plan_followed_pct', 'plan_slippage', 'unrealized_pnl', 'last_fill_at',
+    ].map(k => [`metrics.${k}`, metricValue(k)])),
+    // Realized PnL as aggregated on the dashboard: in the reporting currency once converted.
+    reported_pnl: r => reportedPnl(r),
+    fx_missing: r => missingFx(r),
+};
+
+export interface FillRow {
+    record: TradeRecord;
+    fill: Fill;
+    index: number;
+}
+
+const FILL_GETTERS: Record<string, Getter<FillRow>> = {
+    trade: r => r.record.name,
+    path: r => r.record.path,
+    pair: r => r.record.fm.pair ?? null,
+    action: r => r.record.fm.action ?? null,
+    account: r => r.record.fm.account ?? null,
+    index: r => r.index + 1,
+    ...Object.fromEntries(['t', 'side', 'base', 'quote', 'price', 'fee', 'fee_asset', 'fee_quote', 'note'].map(k => [k, (r: FillRow) => {
+        const v = (r.fill as unknown as Record<string, unknown>)[k];
+        return v == null ? null : v as Value;
+    }])),
+    txs: r => r.fill.txs ?? null,
+};
+
+const SETUP_GETTERS: Record<string, Getter<SetupStats>> = {
+    setup: r => r.setup || null,
+    trades: r => r.stats.count.value,
+    closed: r => r.stats.closed.value,
+    win_rate: r => r.stats.winRate.value,
+    expectancy: r => r.stats.expectancy.value,
+    avg_r: r => r.stats.avgR.value,
+    profit_factor: r => r.stats.profitFactor.value,
+    total_pnl: r => r.stats.totalPnl.value,
+    avg_win: r => r.stats.avgWin.value,
+    avg_loss: r => r.stats.avgLoss.value,
+};
+
+export const EXPORT_COLUMNS: Record<ExportRows, string[]> = {
+    trades: Object.keys(TRADE_GETTERS),
+    fills: Object.keys(FILL_GETTERS),
+    setups: Object.keys(SETUP_GETTERS),
+};
+
+export const DEFAULT_EXPORT_COLUMNS: Record<ExportRows, string[]> = {
+    trades: ['name', 'pair', 'action', 'account', 'tags', 'timestamp', 'closed_at', 'metrics.status', 'metrics.realized_pnl', 'metrics.fees_total', 'metrics.r_multiple', 'reported_pnl'],
+    fills: ['trade', 'pair', 't', 'side', 'base', 'quote', 'price', 'fee', 'fee_asset'],
+    setups: ['setup', 'closed', 'win_rate', 'expectancy', 'avg_r', 'total_pnl'],
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    folder: '',
+    from: '',
+    to: '',
+    tags: '',
+    rows: 'trades',
+    format: 'csv',
+    path: 'Trading/Exports/trades',
+    columns: DEFAULT_EXPORT_COLUMNS,
+};
+
+// One trade column by its export name; unknown columns are null.
+export const tradeColumnValue = (record: TradeRecord, column: string): Value => (TRADE_GETTERS[column] ? TRADE_GETTERS[column](record) : null);
+
+// Saved selections may name columns a newer version dropped; those are skipped.
+export const knownColumns = (rows: ExportRows, columns: string[]) => columns.filter(c => EXPORT_COLUMNS[rows].includes(c));
+
+export const exportTable = (records: TradeRecord[], rows: ExportRows, columns: string[]): Array<Record<string, Value>> => {
+    const keys = knownColumns(rows, columns);
+    if (rows === 'trades') return records.map(r => Object.fromEntries(keys.map(k => [k, TRADE_GETTERS[k](r)])));
+    if (rows === 'setups') return statsBySetup(records).map(r => Object.fromEntries(keys.map(k => [k, SETUP_GETTERS[k](r)])));
+    const fills: FillRow[] = records.flatMap(record => (Array.isArray(record.fm.fills) ? record.fm.fills : []).map((fill, index) => ({ record, fill, index })));
+    return fills.map(r => Object.fromEntries(keys.map(k => [k, FILL_GETTERS[k](r)])));
+};
+
+const csvCell = (v: Value) => {
+    const s = v == null ? '' : Array.isArray(v) ? v.join(';') : String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const formatExport = (table: Array<Record<string, Value>>, columns: string[], format: ExportFormat) => {
+    if (format === 'json') return JSON.stringify(table, null, 2) + '\n';
+    return [columns.map(csvCell).join(','), ...table.map(row => columns.map(c => csvCell(row[c] ?? null)).join(','))].join('\n') + '\n';
+};
+
+// Folder, date range and tag filters from the export options.
+export const selectForExport = (records: TradeRecord[], opts: ExportOptions) => {
+    const folder = opts.folder.replace(/\/+$/, '');
+    const inFolder = folder ? records.filter(r => r.path.startsWith(folder + '/')) : records;
+    return filterTrades(inFolder, {
+        from: opts.from || undefined,
+        to: opts.to || undefined,
+        tags: opts.tags ? opts.tags.split(/[\s,]+/).filter(Boolean) : undefined,
+    });
+};
+
+export const buildExport = (records: TradeRecord[], opts: ExportOptions) => {
+    const columns = knownColumns(opts.rows, opts.columns[opts.rows] ?? []);
+    return formatExport(exportTable(records, opts.rows, columns), columns, opts.format);
+};
@@ -0,0 +1,62 @@
+import { parseCsv, parseNum } from './helpers';
+
+// Daily rates per asset, each the value of one unit in the reporting currency, sorted by day.
+export type FxTable = Record<string, Array<{ day: string; rate: number }>>;
+
+// A rate older than this many days is treated as missing rather than silently reused.
+export const FX_MAX_AGE_DAYS = 7;
+
+const DAY_MS = 86400000;
+
+const toDay = (v: unknown) => {
+    const s = String(v ?? '').trim();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+    const t = Date.parse(s);
+    return isNaN(t) ? null : new Date(t).toISOString().slice(0, 10);
+};
+
+// Accepts JSON ({ "EUR": { "2024-01-02": 1.09 } } or [{ date, asset, rate }]) or CSV with date,asset,rate columns.
+export const parseFxTable = (text: string, path = ''): FxTable => {
+    const table: FxTable = {};
+    const put = (day: unknown, asset: unknown, rate: unknown) => {
+        const d = toDay(day);
+        const r = typeof rate === 'number' ? rate : parseNum(String(rate ?? ''));
+        const a = String(asset ?? '').trim().toUpperCase();
+        if (!d || !a || !Number.isFinite(r) || r <= 0) return;
+        (table[a] = table[a] ?? []).push({ day: d, rate: r });
+    };
+    const trimmed = text.trim();
+    if (/\.json$/i.test(path) || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        const data = JSON.parse(trimmed || '{}');
+        if (Array.isArray(data)) data.forEach(row => put(row?.date ?? row?.day, row?.asset ?? row?.symbol, row?.rate ?? row?.price));
+        else Object.entries(data ?? {}).forEach(([asset, days]) => Object.entries((days ?? {}) as Record<string, unknown>).forEach(([day, rate]) => put(day, asset, rate)));
+    } else {
+        const rows = parseCsv(text);
+        const header = (rows[0] ?? []).map(h => h.trim().toLowerCase());
+        let dayCol = header.findIndex(h => h === 'date' || h === 'day');
+        let assetCol = header.findIndex(h => h === 'asset' || h === 'symbol');
+        let rateCol = header.findIndex(h => h === 'rate' || h === 'price');
+        const body = dayCol >= 0 && assetCol >= 0 && rateCol >= 0 ? rows.slice(1) : rows;
+        if (dayCol < 0 || assetCol < 0 || rateCol < 0) { dayCol = 0; assetCol = 1; rateCol = 2; }
+        body.forEach(row => put(row[dayCol], row[assetCol], row[rateCol]));
+    }
+    Object.values(table).forEach(rates => rates.sort((a, b) => a.day.localeCompare(b.day)));
+    return table;
+};
+
+// Rate on the UTC day of `at`, falling back to the latest earlier day within FX_MAX_AGE_DAYS.
+export const fxRate = (table: FxTable, asset: string | undefined, currency: string, at: unknown) => {
+    const a = String(asset ?? '').trim().toUpperCase();
+    if (!a) return null;
+    if (a === currency.trim().toUpperCase()) return 1;
+    const day = toDay(at);
+    const rates = table[a];
+    if (!day || !rates) return null;
+    let found: { day: string; rate: number } | null = null;
+    for (const r of rates) {
+        if (r.day > day) break;
+        found = r;
+    }
+    if (!found || Date.parse(day) - Date.parse(found.day) > FX_MAX_AGE_DAYS * DAY_MS) return null;
+    return found.rate;
+};
@@ -1,5 +1,5 @@
 import type { App, TFile } from 'obsidian';
-import { Metrics, Fill, Side, TradeFrontmatter } from './schema';
+import { Metrics, Fill, Side, TradeFrontmatter, CostBasis, MarginMode, PlanTarget, StopMove, TradePlan, CarryEntry, CarryKind } from './schema';
 // Helpers
 export const pad = (n: number) => String(n).padStart(2, '0');
 export const toIsoUtc = (d: Date) => `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}T${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:00.000Z`;
@@ -21,6 +21,34 @@ export const parsePair = (input?: string) => {
     if (raw.endsWith('USDT')) return { base: raw.replace(/USDT$/, ''), quote: 'USDT' };
     return { base: raw, quote: 'USDT' };
 };
+export const tradePair = (fm?: Partial<TradeFrontmatter>) => {
+    const pair = parsePair(fm?.pair);
+    if (fm?.quote) pair.quote = String(fm.quote).toUpperCase();
+    return pair;
+};
+// Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF; blank lines are dropped.
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [], field = '', quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else field += c;
+        } else if (c === '"') quoted = true;
+        else if (c === delimiter) { row.push(field); field = ''; }
+        else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            if (row.some(v => v.trim() !== '')) rows.push(row);
+            row = [];
+        } else field += c;
+    }
+    row.push(field);
+    if (row.some(v => v.trim() !== '')) rows.push(row);
+    return rows;
+};
 export const ensureFolder = async (app: App, path: string) => {
     if (app.vault.getAbstractFileByPath(path)) return;
     const parts = path.split('/');
@@ -123,11 +151,17 @@ export const toUtcDateFromInput = (input: string | undefined, fallbackDate: Date
     const d = new Date(trimmed.replace(/\s+UTC$/i, ''));
     return isNaN(d.getTime()) ? fallbackDate : d;
 };
-export const isTradeFile = (f: TFile | null, root?: string) => !!(f && f.basename?.startsWith('T-') && (!root || (f.path && f.path.startsWith(root + '/'))));
+// Trade notes are told apart by frontmatter (a pair plus an action, v1 direction or fills), not by their file name.
+export const isTradeFrontmatter = (fm: unknown) => {
+    const f = fm as Record<string, unknown> | null | undefined;
+    if (!f || typeof f !== 'object' || typeof f.pair !== 'string' || !f.pair.trim()) return false;
+    return f.action != null || f.direction != null || Array.isArray(f.fills);
+};
+export const isTradeFile = (app: App, f: TFile | null, root?: string): f is TFile => !!(f && f.extension === 'md' && (!root || (f.path && f.path.startsWith(root + '/'))) && isTradeFrontmatter(app.metadataCache.getFileCache(f)?.frontmatter));
 
 
 export const expectedQuoteSign = (dir: number, side: Side) => (side === 'in' ? -dir : dir);
-export const buildFill = (opts: { dir: number; side: Side; amount: number; price?: number | null; quote?: number | null; when?: Date; note?: string; txs?: string[] }): Fill => {
+export const buildFill = (opts: { dir: number; side: Side; amount: number; price?: number | null; quote?: number | null; when?: Date; note?: string; txs?: string[]; fee?: number | null; feeAsset?: string; feeQuote?: number | null }): Fill => {
     const { dir, side, amount } = opts;
     const when = opts.when ?? new Date();
     const baseAbs = Math.abs(Number(amount) || 0);
@@ -139,24 +173,360 @@ export const buildFill = (opts: { dir: number; side: Side; amount: number; price
     else if (quote != null && quote !== 0) price = round(Math.abs(quote) / Math.abs(base || 1));
     const fill: Fill = { side, t: toIsoUtc(when), base, quote: round(quote) ?? 0, price: round(price) ?? 0 };
     if (opts.note) fill.note = opts.note; if (opts.txs?.length) fill.txs = opts.txs;
+    if (opts.fee != null && Number.isFinite(opts.fee) && opts.fee !== 0) {
+        fill.fee = round(opts.fee) ?? 0;
+        if (opts.feeAsset) fill.fee_asset = opts.feeAsset.toUpperCase();
+        if (opts.feeQuote != null && Number.isFinite(opts.feeQuote)) fill.fee_quote = round(opts.feeQuote) ?? 0;
+    }
     return fill;
 };
-export const computeMetrics = (fm: Partial<TradeFrontmatter>): Metrics => {
+// Fee of a fill valued in quote; null when it is paid in a third token without a fee_quote.
+export const feeInQuote = (fill: Partial<Fill>, pair?: { base: string; quote: string }) => {
+    const fee = Number(fill?.fee || 0);
+    if (!fee) return 0;
+    if (fill.fee_quote != null && Number.isFinite(Number(fill.fee_quote))) return Number(fill.fee_quote);
+    const asset = String(fill.fee_asset || 'QUOTE').toUpperCase();
+    if (asset === 'QUOTE' || asset === pair?.quote) return fee;
+    if (asset === 'BASE' || asset === pair?.base) return fee * Math.abs(Number(fill.price || 0));
+    return null;
+};
+// After fills are edited: a flat position closes at the last fill, anything else reopens.
+export const reconcileClosedAt = (fm: Partial<TradeFrontmatter>) => {
+    const fills = Array.isArray(fm?.fills) ? fm.fills : [];
+    const position = fills.reduce((acc, f) => acc + (Number(f?.base) || 0), 0);
+    if (!fills.length || Math.abs(position) >= 1e-12) { delete fm.closed_at; return; }
+    const last = fills.reduce((mx, f) => { const t = Date.parse(f?.t || ''); return isNaN(t) ? mx : Math.max(mx, t); }, 0);
+    if (last) fm.closed_at = toIsoUtc(new Date(last));
+};
+export interface PositionFlip {
+    fillIndex: number; // first fill that takes the position through zero
+    closing: number; // base units of that fill that flatten the trade
+    excess: number; // base units beyond zero, in the opposite direction
+}
+// Walks fills in order; an out fill that leaves the position on the wrong side of zero flips the trade.
+export const findPositionFlip = (fm: Partial<TradeFrontmatter>): PositionFlip | null => {
+    const dir = tradeDirection(fm);
+    const fills = Array.isArray(fm?.fills) ? fm.fills : [];
+    let position = 0;
+    for (let i = 0; i < fills.length; i++) {
+        const base = Number(fills[i]?.base) || 0;
+        const next = position + base;
+        // An in fill going the wrong way is a sign error (see lint), not a flip.
+        if (dir * next < -1e-9 && dir * position > -1e-9 && fills[i]?.side === 'out') return { fillIndex: i, closing: round(dir * position) ?? 0, excess: round(Math.abs(next)) ?? 0 };
+        position = next;
+    }
+    return null;
+};
+// Part of a fill: base, quote and fees scale with the share of units taken.
+export const partOfFill = (fill: Fill, units: number, side: Side): Fill => {
+    const share = units / Math.abs(Number(fill.base) || 1);
+    const part: Fill = { ...fill, side, base: round(Number(fill.base) * share) ?? 0, quote: round(Number(fill.quote) * share) ?? 0 };
+    if (fill.fee != null) part.fee = round(Number(fill.fee) * share) ?? 0;
+    if (fill.fee_quote != null) part.fee_quote = round(Number(fill.fee_quote) * share) ?? 0;
+    return part;
+};
+// Splits a flipped trade: fills up to the flat point stay, the excess and every later fill open
+// the opposite-direction trade, with sides re-read against the new direction.
+export const splitAtFlip = (fm: Partial<TradeFrontmatter>): { flip: PositionFlip; kept: Fill[]; moved: Fill[] } | null => {
+    const flip = findPositionFlip(fm);
+    if (!flip) return null;
+    const fills = (fm.fills ?? []) as Fill[];
+    const newDir = -tradeDirection(fm);
+    const at = fills[flip.fillIndex];
+    const kept = fills.slice(0, flip.fillIndex);
+    if (flip.closing > 0) kept.push(partOfFill(at, flip.closing, 'out'));
+    const moved = [partOfFill(at, flip.excess, 'in'), ...fills.slice(flip.fillIndex + 1).map(f => ({ ...f, side: (Math.sign(Number(f.base)) === newDir ? 'in' : 'out') as Side }))];
+    return { flip, kept, moved };
+};
+export interface PositionSize {
+    action: 'long' | 'short';
+    riskQuote: number; // 1R in quote
+    riskPerUnit: number;
+    amount: number; // base units
+    allocation: number; // quote notional at entry
+}
+// Sizes so that hitting the stop loses riskPct of equity; direction follows the stop's side of entry.
+export const computePositionSize = (opts: { equity: number; riskPct: number; entry: number; stop: number }): PositionSize | null => {
+    const { equity, riskPct, entry, stop } = opts;
+    if (![equity, riskPct, entry, stop].every(Number.isFinite) || equity <= 0 || riskPct <= 0 || entry <= 0 || stop <= 0) return null;
+    const riskPerUnit = Math.abs(entry - stop);
+    if (!riskPerUnit) return null;
+    const riskQuote = equity * riskPct / 100;
+    const amount = riskQuote / riskPerUnit;
+    return { action: stop < entry ? 'long' : 'short', riskQuote: round(riskQuote) ?? 0, riskPerUnit: round(riskPerUnit) ?? 0, amount: round(amount) ?? 0, allocation: round(amount * entry) ?? 0 };
+};
+export const MARGIN_MODES: MarginMode[] = ['isolated', 'cross'];
+export const tradeLeverage = (fm: Partial<TradeFrontmatter>) => {
+    const leverage = Number(fm?.leverage);
+    return fm?.leverage != null && Number.isFinite(leverage) && leverage > 0 ? leverage : null;
+};
+export const marginMode = (fm: Partial<TradeFrontmatter>): MarginMode => (String(fm?.margin_mode ?? '').toLowerCase() === 'cross' ? 'cross' : 'isolated');
+// Linear contracts: liquidation is where the loss eats the collateral down to the maintenance margin.
+// Isolated collateral is the position's own margin; cross passes the account equity. Null when never reached.
+export const estimateLiquidation = (opts: { dir: number; entry: number; units: number; collateral: number; maintenancePct: number }) => {
+    const { dir, entry, units, collateral, maintenancePct } = opts;
+    if (![entry, units, collateral, maintenancePct].every(Number.isFinite) || entry <= 0 || units <= 0 || collateral < 0) return null;
+    const mmr = maintenancePct / 100;
+    const price = dir > 0
+        ? (entry * units - collateral) / (units * (1 - mmr))
+        : (entry * units + collateral) / (units * (1 + mmr));
+    return price > 0 ? round(price) : null;
+};
+// A stop the exchange would never get to because liquidation comes first.
+export const stopBeyondLiquidation = (dir: number, stop: number | null | undefined, liquidation: number | null | undefined) =>
+    stop != null && liquidation != null && dir * (stop - liquidation) <= 0;
+export const COST_BASIS_METHODS: CostBasis[] = ['average', 'fifo', 'lifo'];
+export const isCostBasis = (v: unknown): v is CostBasis => COST_BASIS_METHODS.includes(v as CostBasis);
+export const resolveCostBasis = (fm: Partial<TradeFrontmatter>, fallback: CostBasis = 'average'): CostBasis => {
+    const own = String(fm?.cost_basis ?? '').toLowerCase();
+    return isCostBasis(own) ? own : fallback;
+};
+
+export interface LotMatch { t: string; units: number; price: number; }
+export interface ExitMatch { t: string; units: number; price: number; lots: LotMatch[]; unmatched: number; pnl: number; }
+export interface LotMatchResult { exits: ExitMatch[]; open: LotMatch[]; }
+// Matches out fills against in fills in time order; FIFO consumes the oldest lot first, LIFO the newest.
+export const matchLots = (fills: Fill[], method: 'fifo' | 'lifo', dir: number): LotMatchResult => {
+    const ordered = fills.map((f, i) => ({ f, i, t: Date.parse(f?.t || '') }))
+        .sort((a, b) => (isNaN(a.t) || isNaN(b.t) ? a.i - b.i : a.t - b.t || a.i - b.i))
+        .map(x => x.f);
+    const open: LotMatch[] = [];
+    const exits: ExitMatch[] = [];
+    for (const f of ordered) {
+        const units = Math.abs(Number(f?.base || 0));
+        if (!units) continue;
+        const price = Math.abs(Number(f?.quote || 0)) / units;
+        if ((f?.side || 'in') === 'in') { open.push({ t: f.t, units, price }); continue; }
+        let remaining = units, pnl = 0;
+        const lots: LotMatch[] = [];
+        while (remaining > 1e-12 && open.length) {
+            const lot = method === 'fifo' ? open[0] : open[open.length - 1];
+            const take = Math.min(lot.units, remaining);
+            lots.push({ t: lot.t, units: round(take) ?? 0, price: round(lot.price) ?? 0 });
+            pnl += dir * (price - lot.price) * take;
+            lot.units -= take; remaining -= take;
+            if (lot.units <= 1e-12) { if (method === 'fifo') open.shift(); else open.pop(); }
+        }
+        exits.push({ t: f.t, units: round(units) ?? 0, price: round(price) ?? 0, lots, unmatched: round(remaining) ?? 0, pnl: round(pnl) ?? 0 });
+    }
+    return { exits, open: open.map(l => ({ ...l, units: round(l.units) ?? 0, price: round(l.price) ?? 0 })) };
+};
+
+// Fill price, derived from quote/base when not recorded.
+const fillPrice = (f: Partial<Fill>) => {
+    const p = Number(f?.price);
+    if (Number.isFinite(p) && p > 0) return p;
+    const b = Number(f?.base), q = Number(f?.quote);
+    return b ? Math.abs(q / b) : NaN;
+};
+// "110@0.5, 120@0.25, 130": targets without a fraction share what the others leave.
+export const parseTargets = (text: string): PlanTarget[] => {
+    const parts = text.split(/[\s,;]+/).filter(Boolean).map(part => {
+        const [price, size] = part.split('@');
+        const pct = size?.trim().endsWith('%');
+        return { price: parseNum(price), size: size != null ? parseNum(size.replace('%', '')) / (pct ? 100 : 1) : NaN };
+    });
+    if (parts.some(p => !Number.isFinite(p.price) || p.price <= 0 || (!isNaN(p.size) && (p.size <= 0 || p.size > 1)))) throw new Error(`Bad targets: ${text}`);
+    const given = parts.reduce((acc, p) => acc + (isNaN(p.size) ? 0 : p.size), 0);
+    if (given > 1 + 1e-9) throw new Error('Target sizes add up to more than 100%');
+    const missing = parts.filter(p => isNaN(p.size)).length;
+    return parts.map(p => ({ price: p.price, size: round(isNaN(p.size) ? (1 - given) / missing : p.size, 6) ?? 0 }));
+};
+// "100" or a "100-102", "100..102" or "100–102" zone; empty input plans no entry.
+// A hyphen only separates when it sits between two numbers, so "-100" stays a (rejected) negative price.
+export const parseEntryZone = (text: string): number | [number, number] | undefined => {
+    const parts = text.trim().split(/\s*(?:\.\.|–|(?<=\d)\s*-(?=\s*\d))\s*|\s+/).filter(Boolean).map(parseNum);
+    if (!parts.length) return undefined;
+    if (parts.length > 2 || parts.some(p => !Number.isFinite(p) || p <= 0)) throw new Error(`Bad entry zone: ${text}`);
+    return parts.length === 1 || parts[0] === parts[1] ? parts[0] : [Math.min(...parts), Math.max(...parts)] as [number, number];
+};
+// Plan from frontmatter with numbers coerced; null when nothing usable is planned.
+export const normalizePlan = (raw: unknown): { low: number | null; high: number | null; stop: number | null; targets: PlanTarget[] } | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const plan = raw as Partial<TradePlan>;
+    const num = (v: unknown) => { const n = typeof v === 'number' ? v : parseNum(String(v ?? '')); return Number.isFinite(n) && n > 0 ? n : null; };
+    const zone = (Array.isArray(plan.entry) ? plan.entry : [plan.entry, plan.entry]).map(num).filter((n): n is number => n != null);
+    const targets = (Array.isArray(plan.targets) ? plan.targets : [])
+        .map(t => ({ price: num(t?.price), size: num(t?.size) }))
+        .filter((t): t is PlanTarget => t.price != null && t.size != null);
+    const stop = num(plan.stop);
+    if (!zone.length && stop == null && !targets.length) return null;
+    return { low: zone.length ? Math.min(...zone) : null, high: zone.length ? Math.max(...zone) : null, stop, targets };
+};
+export interface PlanReport {
+    planned_rr: number | null;
+    targets_hit: boolean[];
+    target_fills: Array<string | null>; // first out fill at or beyond each target
+    plan_slippage: number | null;
+    plan_followed_pct: number | null;
+}
+// Checks scored: entry inside the zone, no exit beyond the stop, each target reached; unreached targets only count once closed.
+export const evaluatePlan = (fm: Partial<TradeFrontmatter>, avgEntry: number | null, closed: boolean): PlanReport | null => {
+    const plan = normalizePlan(fm?.plan);
+    if (!plan) return null;
+    const dir = tradeDirection(fm);
+    const fills = Array.isArray(fm?.fills) ? fm.fills : [];
+    const outs = fills.filter(f => f?.side === 'out').map(f => ({ t: f.t, price: fillPrice(f) })).filter(f => Number.isFinite(f.price));
+    const entry = plan.low != null && plan.high != null ? (plan.low + plan.high) / 2 : null;
+    let plannedRr: number | null = null;
+    const weight = plan.targets.reduce((acc, t) => acc + t.size, 0);
+    if (entry != null && plan.stop != null && weight && Math.abs(entry - plan.stop) > 0) {
+        const reward = plan.targets.reduce((acc, t) => acc + t.size * dir * (t.price - entry), 0) / weight;
+        plannedRr = round(reward / Math.abs(entry - plan.stop), 4);
+    }
+    const targetFills = plan.targets.map(t => outs.find(f => dir * (f.price - t.price) >= -1e-9)?.t ?? null);
+    let slippage: number | null = null;
+    if (avgEntry != null && plan.low != null && plan.high != null) {
+        const worse = dir > 0 ? plan.high : plan.low, better = dir > 0 ? plan.low : plan.high;
+        const over = dir * (avgEntry - worse), under = dir * (avgEntry - better);
+        slippage = round(over > 0 ? over : under < 0 ? under : 0);
+    }
+    const checks: boolean[] = [];
+    if (slippage != null) checks.push(slippage <= 1e-9);
+    if (plan.stop != null && outs.length) checks.push(outs.every(f => dir * (f.price - (plan.stop as number)) >= -1e-9));
+    targetFills.forEach(t => { if (t != null || closed) checks.push(t != null); });
+    return {
+        planned_rr: plannedRr,
+        targets_hit: targetFills.map(t => t != null),
+        target_fills: targetFills,
+        plan_slippage: slippage,
+        plan_followed_pct: checks.length ? round((checks.filter(Boolean).length / checks.length) * 100, 2) : null,
+    };
+};
+// Valid stop moves in time order.
+export const stopHistory = (fm: Partial<TradeFrontmatter>): StopMove[] => (Array.isArray(fm?.stop_history) ? fm.stop_history : [])
+    .map(m => ({ ...m, price: Number(m?.price) }))
+    .filter(m => Number.isFinite(m.price) && m.price > 0 && !isNaN(Date.parse(String(m?.t ?? ''))))
+    .sort((a, b) => Date.parse(a.t) - Date.parse(b.t));
+export const currentStop = (fm: Partial<TradeFrontmatter>) => {
+    const history = stopHistory(fm);
+    if (history.length) return history[history.length - 1].price;
+    const initial = Number(fm?.initial_stop);
+    return fm?.initial_stop != null && Number.isFinite(initial) && initial > 0 ? initial : null;
+};
+export const CARRY_KINDS: CarryKind[] = ['funding', 'borrow', 'interest'];
+// Valid carry entries in time order; an unknown kind counts as funding.
+export const carryEntries = (fm: Partial<TradeFrontmatter>): CarryEntry[] => (Array.isArray(fm?.carry) ? fm.carry : [])
+    .map(c => ({ ...c, amount: Number(c?.amount), kind: CARRY_KINDS.includes(c?.kind) ? c.kind : 'funding' as CarryKind }))
+    .filter(c => Number.isFinite(c.amount) && !isNaN(Date.parse(String(c?.t ?? ''))))
+    .sort((a, b) => Date.parse(a.t) - Date.parse(b.t));
+export interface MetricsOptions {
+    costBasis?: CostBasis; // default when the trade sets none
+    markPrice?: number | null; // from the price file; the trade's own mark wins
+    accountEquity?: number | null; // equity of the trade's account at entry
+    fx?: { currency: string; rate: number | null } | null; // reporting currency and the quote's rate at closed_at
+    priceRange?: { high: number; low: number } | null; // candle high/low from the first fill to closed_at
+    maintenanceMarginPct?: number; // default when the trade sets none
+}
+// Direction from action, else inferred from the sign of the entered base.
+export const tradeDirection = (fm: Partial<TradeFrontmatter>) => {
+    if (fm?.action === 'short') return -1;
+    if (fm?.action === 'long') return 1;
+    const fills = Array.isArray(fm?.fills) ? fm.fills : [];
+    const inB = fills.reduce((acc, f) => acc + ((f?.side || 'in') === 'in' ? Number(f?.base || 0) : 0), 0);
+    return inB < 0 ? -1 : 1;
+};
+export const computeMetrics = (fm: Partial<TradeFrontmatter>, opts: MetricsOptions = {}): Metrics => {
     const fills = Array.isArray(fm?.fills) ? fm.fills as Fill[] : [];
-    if (!fills.length) return { status: 'open', position: null, avg_entry: null, avg_exit: null, realized_pnl: null, r_multiple: null, win: null };
+    if (!fills.length) return { status: 'open', position: null, avg_entry: null, avg_exit: null, realized_pnl: null, gross_pnl: null, net_pnl: null, fees_total: null, r_multiple: null, win: null };
     let inB = 0, inQ = 0, outB = 0, outQ = 0; for (const f of fills) { const s = (f?.side || 'in'); const b = Number(f?.base || 0), q = Number(f?.quote || 0); if (s === 'in') { inB += b; inQ += q; } else { outB += b; outQ += q; } }
     const abs = Math.abs; const avgEntry = inB ? abs(inQ) / abs(inB) : null; const avgExit = outB ? abs(outQ) / abs(outB) : null; const position = round(inB + outB);
     const exitedUnits = abs(outB);
-    let realized: number | null = null;
+    const pair = tradePair(fm);
+    let fees = 0, feesUnpriced = false;
+    for (const f of fills) { const fq = feeInQuote(f, pair); if (fq == null) feesUnpriced = true; else fees += fq; }
+    const costBasis = resolveCostBasis(fm, opts.costBasis);
+    let gross: number | null = null;
     if (exitedUnits && inB) {
-        const avgEntryVal = avgEntry as number;
-        const directionalDiff = abs(outQ) - (avgEntryVal * exitedUnits);
-        const dir = fm.action === 'short' ? -1 : fm.action === 'long' ? 1 : (inB < 0 ? -1 : 1);
-        realized = round(dir * directionalDiff);
+        const dir = tradeDirection(fm);
+        if (costBasis === 'average') {
+            const avgEntryVal = avgEntry as number;
+            const directionalDiff = abs(outQ) - (avgEntryVal * exitedUnits);
+            gross = round(dir * directionalDiff);
+        } else {
+            gross = round(matchLots(fills, costBasis, dir).exits.reduce((acc, e) => acc + e.pnl, 0));
+        }
+    }
+    const carry = carryEntries(fm);
+    const carryTotal = carry.reduce((acc, c) => acc + c.amount, 0);
+    const net = gross != null ? round(gross - fees + carryTotal) : null;
+    const ownMark = Number(fm.mark);
+    const mark = Number.isFinite(ownMark) && ownMark > 0 ? ownMark : (opts.markPrice != null && opts.markPrice > 0 ? opts.markPrice : null);
+    let unrealized: number | null = null, openR: number | null = null;
+    if (mark != null && position && avgEntry != null) {
+        const dir = tradeDirection(fm);
+        unrealized = costBasis === 'average'
+            ? round(dir * (mark - avgEntry) * abs(position))
+            : round(matchLots(fills, costBasis, dir).open.reduce((acc, l) => acc + dir * (mark - l.price) * l.units, 0));
+        const rpu = fm.initial_stop != null ? abs(avgEntry - Number(fm.initial_stop)) : 0;
+        if (rpu > 0 && unrealized != null) openR = round(unrealized / (rpu * abs(position)));
+    }
+    const stop = currentStop(fm);
+    let riskRemaining: number | null = null, lockedR: number | null = null, initialRisk: number | null = null;
+    if (fm.initial_stop != null && avgEntry != null && inB) {
+        const rpu = abs(avgEntry - Number(fm.initial_stop));
+        if (rpu > 0) initialRisk = round(rpu * abs(inB));
+    }
+    if (stop != null && position && avgEntry != null) {
+        const dir = tradeDirection(fm);
+        const stopPnl = costBasis === 'average'
+            ? dir * (stop - avgEntry) * abs(position)
+            : matchLots(fills, costBasis, dir).open.reduce((acc, l) => acc + dir * (stop - l.price) * l.units, 0);
+        riskRemaining = round(-stopPnl);
+        if (initialRisk) lockedR = round(((net ?? 0) + stopPnl) / initialRisk);
     }
     const status: Metrics['status'] = (position === 0 || !!fm.closed_at) ? 'closed' : 'open';
-    let rMultiple: number | null = null; if (fm.initial_stop != null && avgEntry != null && exitedUnits) { const rpu = abs(avgEntry - Number(fm.initial_stop)); if (rpu > 0) rMultiple = round((realized ?? 0) / (rpu * exitedUnits)); }
+    let rMultiple: number | null = null; if (fm.initial_stop != null && avgEntry != null && exitedUnits) { const rpu = abs(avgEntry - Number(fm.initial_stop)); if (rpu > 0) rMultiple = round((net ?? 0) / (rpu * exitedUnits)); }
     const lastFillAt = fills.reduce((mx, f) => { const t = Date.parse(f.t || ''); return isNaN(t) ? mx : Math.max(mx, t); }, 0);
-    const win = realized != null ? realized > 0 : null;
-    return { status, position: position ?? null, avg_entry: round(avgEntry), avg_exit: round(avgExit), realized_pnl: realized, r_multiple: rMultiple, win, last_fill_at: lastFillAt ? new Date(lastFillAt).toISOString() : null, computed_at: new Date().toISOString() };
+    const win = net != null ? net > 0 : null;
+    const metrics: Metrics = { status, position: position ?? null, avg_entry: round(avgEntry), avg_exit: round(avgExit), realized_pnl: net, gross_pnl: gross, net_pnl: net, fees_total: round(fees), r_multiple: rMultiple, cost_basis: costBasis, win, last_fill_at: lastFillAt ? new Date(lastFillAt).toISOString() : null, computed_at: new Date().toISOString() };
+    if (feesUnpriced) metrics.fees_unpriced = true;
+    if (carry.length) metrics.carry_total = round(carryTotal);
+    const leverage = tradeLeverage(fm);
+    if (leverage != null && avgEntry != null && inB) {
+        const dir = tradeDirection(fm);
+        const margin = (avgEntry * abs(inB)) / leverage;
+        const ownMaintenance = Number(fm.maintenance_margin_pct);
+        const maintenancePct = fm.maintenance_margin_pct != null && Number.isFinite(ownMaintenance) && ownMaintenance >= 0 ? ownMaintenance : (opts.maintenanceMarginPct ?? 0);
+        const collateral = marginMode(fm) === 'cross' ? opts.accountEquity ?? null : (avgEntry * abs(position ?? 0)) / leverage;
+        metrics.initial_margin = round(margin);
+        metrics.return_on_margin = net != null && margin > 0 ? round((net / margin) * 100, 4) : null;
+        metrics.liquidation_price = position && collateral != null
+            ? estimateLiquidation({ dir, entry: avgEntry, units: abs(position), collateral, maintenancePct })
+            : null;
+    }
+    if (opts.accountEquity != null && opts.accountEquity > 0) {
+        metrics.account_equity = round(opts.accountEquity);
+        metrics.return_pct = net != null ? round((net / opts.accountEquity) * 100, 4) : null;
+    }
+    if (opts.fx?.currency && net != null) {
+        metrics.reporting_currency = opts.fx.currency;
+        metrics.fx_rate = opts.fx.rate;
+        metrics.realized_pnl_reporting = opts.fx.rate != null ? round(net * opts.fx.rate) : null;
+    }
+    if (opts.priceRange && avgEntry != null && inB) {
+        const dir = tradeDirection(fm);
+        const { high, low } = opts.priceRange;
+        const mae = Math.max(0, dir > 0 ? avgEntry - low : high - avgEntry);
+        const mfe = Math.max(0, dir > 0 ? high - avgEntry : avgEntry - low);
+        const rpu = fm.initial_stop != null ? abs(avgEntry - Number(fm.initial_stop)) : 0;
+        metrics.mae_price = round(mae);
+        metrics.mfe_price = round(mfe);
+        metrics.mae_quote = round(mae * abs(inB));
+        metrics.mfe_quote = round(mfe * abs(inB));
+        metrics.mae_r = rpu > 0 ? round(mae / rpu, 4) : null;
+        metrics.mfe_r = rpu > 0 ? round(mfe / rpu, 4) : null;
+    }
+    if (stop != null) metrics.current_stop = stop;
+    if (initialRisk != null) metrics.initial_risk = initialRisk;
+    if (stop != null && position) { metrics.risk_remaining = riskRemaining; metrics.locked_r = lockedR; }
+    const plan = evaluatePlan(fm, avgEntry, status === 'closed');
+    if (plan) {
+        metrics.planned_rr = plan.planned_rr;
+        metrics.targets_hit = plan.targets_hit;
+        metrics.plan_slippage = plan.plan_slippage;
+        metrics.plan_followed_pct = plan.plan_followed_pct;
+    }
+    if (mark != null && position) { metrics.mark_price = round(mark); metrics.unrealized_pnl = unrealized; metrics.open_r = openR; }
+    return metrics;
 };
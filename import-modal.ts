@@ -0,0 +1,191 @@
+import { App, Modal, Setting } from 'obsidian';
+import { round } from './helpers';
+import { CarryPlan, CarryTradeRef, ColumnMapping, FundingMapping, ImportPlan, OpenTradeRef, parseFundingHistory, parseTradeHistory, planCarryImport, planImport } from './importer';
+
+export interface ImportModalOptions {
+	fileName: string;
+	text: string;
+	mappings: ColumnMapping[];
+	openTrades: OpenTradeRef[];
+	knownTxs: string[]; // tx ids on every trade note, for duplicate checks
+	onConfirm(plan: ImportPlan): Promise<void>;
+}
+
+// Parses with the chosen mapping and previews where each fill lands; nothing is written until Import.
+export class ImportModal extends Modal {
+	private readonly opts: ImportModalOptions;
+	private mapping: ColumnMapping;
+	private account = '';
+	private plan: ImportPlan = { entries: [], duplicates: 0 };
+	private previewEl: HTMLElement | null = null;
+	private importButton: HTMLButtonElement | null = null;
+
+	constructor(app: App, opts: ImportModalOptions) {
+		super(app);
+		this.opts = opts;
+		this.mapping = opts.mappings[0];
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('ace-import-modal');
+		contentEl.createEl('h3', { text: `Import ${this.opts.fileName}` });
+
+		new Setting(contentEl)
+			.setName('Format')
+			.addDropdown(d => {
+				this.opts.mappings.forEach((m, i) => d.addOption(String(i), m.name));
+				d.setValue('0');
+				d.onChange(v => { this.mapping = this.opts.mappings[Number(v)]; this.renderPreview(); });
+			});
+		new Setting(contentEl)
+			.setName('Account')
+			.setDesc('Used for rows without an account column')
+			.addText(t => t.onChange(v => { this.account = v.trim(); this.renderPreview(); }));
+
+		this.previewEl = contentEl.createDiv({ cls: 'ace-import-preview' });
+		new Setting(contentEl)
+			.addButton(b => b.setButtonText('Cancel').onClick(() => this.close()))
+			.addButton(b => {
+				b.setCta().setButtonText('Import').onClick(async () => {
+					b.setDisabled(true);
+					await this.opts.onConfirm(this.plan);
+					this.close();
+				});
+				this.importButton = b.buttonEl;
+			});
+		this.renderPreview();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderPreview(): void {
+		const el = this.previewEl;
+		if (!el) return;
+		el.empty();
+		const { rows, errors } = parseTradeHistory(this.opts.text, this.mapping, this.account);
+		this.plan = planImport(rows, this.opts.openTrades, this.opts.knownTxs);
+		const fillCount = this.plan.entries.reduce((acc, e) => acc + e.fills.length, 0);
+		el.createEl('p', { text: `${rows.length} rows parsed, ${fillCount} fills to write, ${this.plan.duplicates} already imported.` });
+
+		if (errors.length) {
+			const list = el.createEl('ul', { cls: 'ace-import-errors' });
+			errors.slice(0, 10).forEach(err => list.createEl('li', { text: err }));
+			if (errors.length > 10) list.createEl('li', { text: `…and ${errors.length - 10} more` });
+		}
+
+		if (this.plan.entries.length) {
+			const table = el.createEl('table', { cls: 'ace-trade-fills' });
+			const headerRow = table.createEl('thead').createEl('tr');
+			['Target', 'Pair', 'Account', 'Fills', 'Closes'].forEach(h => headerRow.createEl('th', { text: h }));
+			const tbody = table.createEl('tbody');
+			for (const entry of this.plan.entries) {
+				const tr = tbody.createEl('tr');
+				const target = entry.target;
+				let values: string[];
+				if (target.kind === 'append') {
+					const ref = this.opts.openTrades.find(t => t.path === target.path);
+					values = [target.path, ref?.pair ?? '', ref?.account ?? ''];
+				} else {
+					values = [`New ${target.action}`, target.pair, target.account];
+				}
+				[...values, String(entry.fills.length), entry.closedAt ? 'yes' : ''].forEach(v => tr.createEl('td', { text: v }));
+			}
+		}
+		if (this.importButton) this.importButton.disabled = !this.plan.entries.length;
+	}
+}
+
+export interface FundingImportModalOptions {
+	fileName: string;
+	text: string;
+	mappings: FundingMapping[];
+	trades: CarryTradeRef[];
+	onConfirm(plan: CarryPlan): Promise<void>;
+}
+
+// Same flow as the trade import: pick the format, preview which trade each payment lands on, then write.
+export class FundingImportModal extends Modal {
+	private readonly opts: FundingImportModalOptions;
+	private mapping: FundingMapping;
+	private account = '';
+	private plan: CarryPlan = { entries: [], unmatched: 0, ambiguous: 0, duplicates: 0 };
+	private previewEl: HTMLElement | null = null;
+	private importButton: HTMLButtonElement | null = null;
+
+	constructor(app: App, opts: FundingImportModalOptions) {
+		super(app);
+		this.opts = opts;
+		this.mapping = opts.mappings[0];
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('ace-import-modal');
+		contentEl.createEl('h3', { text: `Import funding from ${this.opts.fileName}` });
+
+		new Setting(contentEl)
+			.setName('Format')
+			.addDropdown(d => {
+				this.opts.mappings.forEach((m, i) => d.addOption(String(i), m.name));
+				d.setValue('0');
+				d.onChange(v => { this.mapping = this.opts.mappings[Number(v)]; this.renderPreview(); });
+			});
+		new Setting(contentEl)
+			.setName('Account')
+			.setDesc('Limits rows without an account column to trades on this account')
+			.addText(t => t.onChange(v => { this.account = v.trim(); this.renderPreview(); }));
+
+		this.previewEl = contentEl.createDiv({ cls: 'ace-import-preview' });
+		new Setting(contentEl)
+			.addButton(b => b.setButtonText('Cancel').onClick(() => this.close()))
+			.addButton(b => {
+				b.setCta().setButtonText('Import').onClick(async () => {
+					b.setDisabled(true);
+					await this.opts.onConfirm(this.plan);
+					this.close();
+				});
+				this.importButton = b.buttonEl;
+			});
+		this.renderPreview();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderPreview(): void {
+		const el = this.previewEl;
+		if (!el) return;
+		el.empty();
+		const { rows, errors, skipped } = parseFundingHistory(this.opts.text, this.mapping, this.account);
+		this.plan = planCarryImport(rows, this.opts.trades);
+		const { entries, unmatched, ambiguous, duplicates } = this.plan;
+		const count = entries.reduce((acc, e) => acc + e.carry.length, 0);
+		el.createEl('p', { text: `${rows.length} rows parsed (${skipped} other types skipped), ${count} entries to write, ${duplicates} already imported, ${unmatched} outside any trade, ${ambiguous} matching several trades.` });
+
+		if (errors.length) {
+			const list = el.createEl('ul', { cls: 'ace-import-errors' });
+			errors.slice(0, 10).forEach(err => list.createEl('li', { text: err }));
+			if (errors.length > 10) list.createEl('li', { text: `…and ${errors.length - 10} more` });
+		}
+
+		if (entries.length) {
+			const table = el.createEl('table', { cls: 'ace-trade-fills' });
+			const headerRow = table.createEl('thead').createEl('tr');
+			['Trade', 'Pair', 'Entries', 'Total'].forEach(h => headerRow.createEl('th', { text: h }));
+			const tbody = table.createEl('tbody');
+			for (const entry of entries) {
+				const ref = this.opts.trades.find(t => t.path === entry.path);
+				const total = entry.carry.reduce((acc, c) => acc + c.amount, 0);
+				const tr = tbody.createEl('tr');
+				[entry.path, ref?.pair ?? '', String(entry.carry.length), String(round(total, 8))].forEach(v => tr.createEl('td', { text: v }));
+			}
+		}
+		if (this.importButton) this.importButton.disabled = !entries.length;
+	}
+}
@@ -0,0 +1,402 @@
+import { Action, CarryEntry, CarryKind, Fill } from './schema';
+import { buildFill, parseCsv, parseNum, parsePair, partOfFill, round, toIsoUtc, toUtcDateFromInput } from './helpers';
+
+// Header names may list aliases separated by '|'; matching ignores case and surrounding spaces.
+export interface ColumnMapping {
+    name: string;
+    time: string;
+    pair: string;
+    side: string;
+    amount: string;
+    price?: string;
+    total?: string; // quote value of the fill
+    fee?: string;
+    feeAsset?: string;
+    account?: string;
+    txId?: string;
+    buyValues?: string[]; // side cell values meaning buy; default 'buy'
+    sellValues?: string[]; // default 'sell'
+    defaultQuote?: string; // for exports that only name the coin
+    timeZone?: string; // zone of naive timestamps; default UTC
+    delimiter?: string;
+}
+
+export const IMPORT_PRESETS: ColumnMapping[] = [
+    {
+        name: 'Binance',
+        time: 'Date(UTC)|Time|Date',
+        pair: 'Pair|Symbol|Market',
+        side: 'Side|Type',
+        amount: 'Executed|Amount|Quantity',
+        price: 'Price|Average Price',
+        total: 'Amount|Total',
+        fee: 'Fee',
+        feeAsset: 'Fee Coin|Fee Asset',
+    },
+    {
+        name: 'Bybit',
+        time: 'Transaction Time(UTC)|Trade Time(UTC)|Filled Time|Time',
+        pair: 'Symbol|Contracts|Spot Pairs',
+        side: 'Side|Direction',
+        amount: 'Exec Qty|Filled Quantity|Filled Qty|Qty',
+        price: 'Exec Price|Filled Price|Avg. Filled Price',
+        total: 'Exec Value|Filled Value|Order Value',
+        fee: 'Exec Fee|Fees|Trading Fee|Fee',
+        feeAsset: 'Fee Currency|Fee Coin',
+        txId: 'Exec ID|Transaction ID|Trade ID',
+    },
+    {
+        name: 'Hyperliquid',
+        time: 'time',
+        pair: 'coin',
+        side: 'dir|side',
+        amount: 'sz|size',
+        price: 'px|price',
+        total: 'ntl',
+        fee: 'fee',
+        txId: 'tid|hash',
+        buyValues: ['buy', 'open long', 'close short', 'b'],
+        sellValues: ['sell', 'open short', 'close long', 'a'],
+        defaultQuote: 'USDC',
+    },
+    {
+        name: 'Generic',
+        time: 'time|timestamp|date',
+        pair: 'pair|symbol',
+        side: 'side',
+        amount: 'amount|qty|quantity|size',
+        price: 'price',
+        total: 'total|quote',
+        fee: 'fee',
+        feeAsset: 'fee_asset|fee asset|fee currency',
+        account: 'account',
+        txId: 'id|tx|trade_id',
+    },
+];
+
+export interface ImportRow {
+    line: number;
+    t: Date;
+    base: string;
+    quote: string;
+    side: 'buy' | 'sell';
+    amount: number;
+    price: number | null;
+    total: number | null;
+    fee: number | null;
+    feeAsset?: string;
+    account: string;
+    txId?: string;
+}
+
+export interface ImportParseResult {
+    rows: ImportRow[];
+    errors: string[];
+}
+
+// Splits '0.5BTC' or '12.3 USDT' into value and unit; plain numbers have no unit.
+const numberWithUnit = (raw: string | undefined) => {
+    const m = String(raw ?? '').trim().match(/^([-+]?[\d.,\s]*\d(?:[eE][-+]?\d+)?)\s*([A-Za-z][A-Za-z0-9]*)?$/);
+    if (!m) return { value: NaN, unit: undefined };
+    return { value: parseNum(m[1]), unit: m[2]?.toUpperCase() };
+};
+
+export const parseImportTime = (raw: string, timeZone?: string) => {
+    const s = String(raw ?? '').trim();
+    if (/^\d{10}(\.\d+)?$/.test(s)) return new Date(Number(s) * 1000);
+    if (/^\d{13}$/.test(s)) return new Date(Number(s));
+    const m = s.match(/^(\d{4})[-/](\d{2})[-/](\d{2})[ T](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+    if (m) return toUtcDateFromInput(`${m[1]}-${m[2]}-${m[3]} ${m[4]}:${m[5]}`, null, timeZone || 'UTC');
+    const d = new Date(s);
+    return isNaN(d.getTime()) ? null : d;
+};
+
+export const parseTradeHistory = (text: string, mapping: ColumnMapping, defaultAccount = ''): ImportParseResult => {
+    const table = parseCsv(text.replace(/^\uFEFF/, ''), mapping.delimiter || ',');
+    const errors: string[] = [];
+    if (!table.length) return { rows: [], errors: ['File is empty'] };
+    const header = table[0].map(h => h.trim().toLowerCase());
+    const col = (spec?: string) => {
+        if (!spec) return -1;
+        for (const alias of spec.split('|')) {
+            const idx = header.indexOf(alias.trim().toLowerCase());
+            if (idx >= 0) return idx;
+        }
+        return -1;
+    };
+    const cols = {
+        time: col(mapping.time), pair: col(mapping.pair), side: col(mapping.side), amount: col(mapping.amount),
+        price: col(mapping.price), total: col(mapping.total), fee: col(mapping.fee), feeAsset: col(mapping.feeAsset),
+        account: col(mapping.account), txId: col(mapping.txId),
+    };
+    const missing = (['time', 'pair', 'side', 'amount'] as const).filter(k => cols[k] < 0);
+    if (missing.length) return { rows: [], errors: [`Missing column(s) for ${mapping.name}: ${missing.join(', ')}`] };
+    if (cols.price < 0 && cols.total < 0) return { rows: [], errors: [`Missing price or total column for ${mapping.name}`] };
+    // Binance reuses 'Amount' for the quote total when 'Executed' holds the base amount.
+    if (cols.total === cols.amount) cols.total = -1;
+
+    const buy = (mapping.buyValues ?? ['buy']).map(v => v.toLowerCase());
+    const sell = (mapping.sellValues ?? ['sell']).map(v => v.toLowerCase());
+    const rows: ImportRow[] = [];
+    table.slice(1).forEach((cells, i) => {
+        const line = i + 2;
+        const cell = (idx: number) => (idx >= 0 ? (cells[idx] ?? '').trim() : '');
+        const t = parseImportTime(cell(cols.time), mapping.timeZone);
+        if (!t) { errors.push(`Line ${line}: bad time "${cell(cols.time)}"`); return; }
+        const sideRaw = cell(cols.side).toLowerCase();
+        const side = buy.includes(sideRaw) ? 'buy' : sell.includes(sideRaw) ? 'sell' : null;
+        if (!side) { errors.push(`Line ${line}: unknown side "${cell(cols.side)}"`); return; }
+        const rawPair = cell(cols.pair);
+        const pair = /[/:-]/.test(rawPair) || !mapping.defaultQuote ? parsePair(rawPair) : { base: rawPair.toUpperCase(), quote: mapping.defaultQuote.toUpperCase() };
+        if (!pair.base) { errors.push(`Line ${line}: missing pair`); return; }
+        const amount = Math.abs(numberWithUnit(cell(cols.amount)).value);
+        if (!Number.isFinite(amount) || amount <= 0) { errors.push(`Line ${line}: bad amount "${cell(cols.amount)}"`); return; }
+        const price = numberWithUnit(cell(cols.price)).value;
+        const total = numberWithUnit(cell(cols.total)).value;
+        if (!(price > 0) && !(total > 0)) { errors.push(`Line ${line}: needs a price or total`); return; }
+        const fee = numberWithUnit(cell(cols.fee));
+        const row: ImportRow = {
+            line, t, base: pair.base, quote: pair.quote, side, amount,
+            price: price > 0 ? price : null,
+            total: total > 0 ? Math.abs(total) : null,
+            fee: Number.isFinite(fee.value) && fee.value !== 0 ? Math.abs(fee.value) : null,
+            account: cell(cols.account) || defaultAccount,
+        };
+        const feeAsset = (cell(cols.feeAsset) || fee.unit || (row.fee != null ? pair.quote : '')).toUpperCase();
+        if (feeAsset) row.feeAsset = feeAsset;
+        const txId = cell(cols.txId);
+        if (txId) row.txId = txId;
+        rows.push(row);
+    });
+    rows.sort((a, b) => a.t.getTime() - b.t.getTime() || a.line - b.line);
+    return { rows, errors };
+};
+
+export interface OpenTradeRef {
+    path: string;
+    pair: string; // BASE/QUOTE
+    account: string;
+    action: Action;
+    position: number;
+    txs: string[];
+}
+
+export interface ImportPlanEntry {
+    target: { kind: 'append'; path: string } | { kind: 'new'; pair: string; account: string; action: Action };
+    fills: Fill[];
+    closedAt?: Date; // set when the imported fills bring the position back to flat
+    flippedFrom?: ImportPlanEntry; // the trade a row took through zero; this one holds the rest of that row
+}
+
+export interface ImportPlan {
+    entries: ImportPlanEntry[];
+    duplicates: number;
+}
+
+export const importKey = (pair: string, account: string) => `${pair.toUpperCase()}|${account.trim().toLowerCase()}`;
+
+// Routes rows to the open trade with the same pair and account, or starts a new trade
+// whose direction follows the first row; a trade that returns to flat is closed. A row that
+// goes past flat is split like Split Position Flip: the closing part stays, the rest opens the opposite trade.
+// `knownTxs` holds the tx ids on every trade note, closed ones included, so re-imports are skipped.
+export const planImport = (rows: ImportRow[], openTrades: OpenTradeRef[], knownTxs: string[] = []): ImportPlan => {
+    type Slot = { entry: ImportPlanEntry; action: Action; position: number };
+    const slots = new Map<string, Slot>();
+    const seen = new Set([...knownTxs, ...openTrades.flatMap(t => t.txs)]);
+    for (const trade of openTrades) {
+        const key = importKey(trade.pair, trade.account);
+        if (slots.has(key)) continue;
+        slots.set(key, { entry: { target: { kind: 'append', path: trade.path }, fills: [] }, action: trade.action, position: trade.position });
+    }
+    const entries: ImportPlanEntry[] = [];
+    let duplicates = 0;
+    for (const row of rows) {
+        const pair = `${row.base}/${row.quote}`;
+        const key = importKey(pair, row.account);
+        let slot = slots.get(key);
+        if (row.txId && seen.has(row.txId)) { duplicates++; continue; }
+        if (!slot) {
+            const action: Action = row.side === 'buy' ? 'long' : 'short';
+            slot = { entry: { target: { kind: 'new', pair, account: row.account, action }, fills: [] }, action, position: 0 };
+            slots.set(key, slot);
+        }
+        if (!slot.entry.fills.length) entries.push(slot.entry);
+        const dir = slot.action === 'short' ? -1 : 1;
+        const side = (row.side === 'buy') === (dir === 1) ? 'in' : 'out';
+        const fill = buildFill({
+            dir, side, amount: row.amount, price: row.price, quote: row.total != null ? row.total * (side === 'in' ? -dir : dir) : null,
+            when: row.t, txs: row.txId ? [row.txId] : undefined, fee: row.fee, feeAsset: row.feeAsset,
+        });
+        if (row.txId) seen.add(row.txId);
+        const next = slot.position + fill.base;
+        if (side === 'out' && dir * next < -1e-9) {
+            const closing = dir * slot.position;
+            if (closing > 1e-9) slot.entry.fills.push(partOfFill(fill, closing, 'out'));
+            slot.entry.closedAt = row.t;
+            const action: Action = slot.action === 'long' ? 'short' : 'long';
+            const rest = partOfFill(fill, Math.abs(next), 'in');
+            const flipped: Slot = { entry: { target: { kind: 'new', pair, account: row.account, action }, fills: [rest], flippedFrom: slot.entry }, action, position: rest.base };
+            entries.push(flipped.entry);
+            slots.set(key, flipped);
+            continue;
+        }
+        slot.entry.fills.push(fill);
+        slot.position = next;
+        if (Math.abs(slot.position) < 1e-9) {
+            slot.entry.closedAt = row.t;
+            slots.delete(key);
+        }
+    }
+    return { entries, duplicates };
+};
+
+
+// Funding and interest statements: one signed amount per row, received > 0 and paid < 0.
+export interface FundingMapping {
+    name: string;
+    time: string;
+    pair: string;
+    amount: string;
+    kind?: string; // rows are funding without it; with it, rows of other types (fees, PnL) are skipped
+    account?: string;
+    defaultQuote?: string;
+    timeZone?: string;
+    delimiter?: string;
+}
+
+export const FUNDING_PRESETS: FundingMapping[] = [
+    {
+        name: 'Binance Futures',
+        time: 'Time|time',
+        pair: 'Symbol|symbol',
+        amount: 'Income|income|Amount',
+        kind: 'Income Type|incomeType|Type',
+    },
+    {
+        name: 'Bybit',
+        time: 'Time|Transaction Time(UTC)|Time(UTC)',
+        pair: 'Contract|Symbol|Currency',
+        amount: 'Funding|Cash Flow|Change',
+        kind: 'Type',
+    },
+    {
+        name: 'Hyperliquid',
+        time: 'time',
+        pair: 'coin',
+        amount: 'payment|usdc',
+        defaultQuote: 'USDC',
+    },
+    {
+        name: 'Generic',
+        time: 'time|timestamp|date',
+        pair: 'pair|symbol',
+        amount: 'amount',
+        kind: 'kind|type',
+        account: 'account',
+    },
+];
+
+export interface FundingRow {
+    line: number;
+    t: Date;
+    base: string;
+    quote: string;
+    amount: number;
+    kind: CarryKind;
+    account: string;
+}
+
+export interface FundingParseResult {
+    rows: FundingRow[];
+    errors: string[];
+    skipped: number; // rows of a type that is not carry
+}
+
+const carryKind = (raw: string): CarryKind | null => {
+    const s = raw.toLowerCase();
+    // Bybit books funding as SETTLEMENT in its transaction log.
+    if (s.includes('fund') || s === 'settlement') return 'funding';
+    if (s.includes('borrow') || s.includes('loan')) return 'borrow';
+    if (s.includes('interest')) return 'interest';
+    return null;
+};
+
+export const parseFundingHistory = (text: string, mapping: FundingMapping, defaultAccount = ''): FundingParseResult => {
+    const table = parseCsv(text.replace(/^\uFEFF/, ''), mapping.delimiter || ',');
+    if (!table.length) return { rows: [], errors: ['File is empty'], skipped: 0 };
+    const header = table[0].map(h => h.trim().toLowerCase());
+    const col = (spec?: string) => {
+        if (!spec) return -1;
+        for (const alias of spec.split('|')) {
+            const idx = header.indexOf(alias.trim().toLowerCase());
+            if (idx >= 0) return idx;
+        }
+        return -1;
+    };
+    const cols = { time: col(mapping.time), pair: col(mapping.pair), amount: col(mapping.amount), kind: col(mapping.kind), account: col(mapping.account) };
+    const missing = (['time', 'pair', 'amount'] as const).filter(k => cols[k] < 0);
+    if (missing.length) return { rows: [], errors: [`Missing column(s) for ${mapping.name}: ${missing.join(', ')}`], skipped: 0 };
+
+    const rows: FundingRow[] = [];
+    const errors: string[] = [];
+    let skipped = 0;
+    table.slice(1).forEach((cells, i) => {
+        const line = i + 2;
+        const cell = (idx: number) => (idx >= 0 ? (cells[idx] ?? '').trim() : '');
+        const kind = cols.kind >= 0 ? carryKind(cell(cols.kind)) : 'funding';
+        if (!kind) { skipped++; return; }
+        const t = parseImportTime(cell(cols.time), mapping.timeZone);
+        if (!t) { errors.push(`Line ${line}: bad time "${cell(cols.time)}"`); return; }
+        const rawPair = cell(cols.pair);
+        const pair = /[/:-]/.test(rawPair) || !mapping.defaultQuote ? parsePair(rawPair) : { base: rawPair.toUpperCase(), quote: mapping.defaultQuote.toUpperCase() };
+        if (!pair.base) { errors.push(`Line ${line}: missing pair`); return; }
+        const amount = numberWithUnit(cell(cols.amount)).value;
+        if (!Number.isFinite(amount)) { errors.push(`Line ${line}: bad amount "${cell(cols.amount)}"`); return; }
+        if (amount === 0) { skipped++; return; }
+        rows.push({ line, t, base: pair.base, quote: pair.quote, amount, kind, account: cell(cols.account) || defaultAccount });
+    });
+    rows.sort((a, b) => a.t.getTime() - b.t.getTime() || a.line - b.line);
+    return { rows, errors, skipped };
+};
+
+// A trade that can receive carry: it holds a position from its first fill until closed_at (open-ended while open).
+export interface CarryTradeRef {
+    path: string;
+    pair: string; // BASE/QUOTE
+    account: string;
+    from: number; // ms UTC
+    to: number | null;
+    carry: CarryEntry[]; // entries already on the note
+}
+
+export interface CarryPlan {
+    entries: Array<{ path: string; carry: CarryEntry[] }>;
+    unmatched: number; // no trade held the pair at that time
+    ambiguous: number; // more than one trade did
+    duplicates: number;
+}
+
+const carryKey = (c: CarryEntry) => `${Date.parse(c.t)}|${round(c.amount)}|${c.kind}`;
+
+// Rows go to the one trade on the same pair (and account, when the row names one) whose window holds the row's time.
+export const planCarryImport = (rows: FundingRow[], trades: CarryTradeRef[]): CarryPlan => {
+    const seen = new Map(trades.map(t => [t.path, new Set(t.carry.map(carryKey))]));
+    const byPath = new Map<string, CarryEntry[]>();
+    let unmatched = 0, ambiguous = 0, duplicates = 0;
+    for (const row of rows) {
+        const pair = `${row.base}/${row.quote}`.toUpperCase();
+        const at = row.t.getTime();
+        const matches = trades.filter(t => t.pair.toUpperCase() === pair
+            && (!row.account || t.account.trim().toLowerCase() === row.account.trim().toLowerCase())
+            && at >= t.from && (t.to == null || at <= t.to));
+        if (!matches.length) { unmatched++; continue; }
+        if (matches.length > 1) { ambiguous++; continue; }
+        const path = matches[0].path;
+        const entry: CarryEntry = { t: toIsoUtc(row.t), amount: row.amount, kind: row.kind };
+        const keys = seen.get(path) as Set<string>;
+        if (keys.has(carryKey(entry))) { duplicates++; continue; }
+        keys.add(carryKey(entry));
+        byPath.set(path, [...(byPath.get(path) ?? []), entry]);
+    }
+    return { entries: Array.from(byPath, ([path, carry]) => ({ path, carry })), unmatched, ambiguous, duplicates };
+};
@@ -0,0 +1,164 @@
+import { CARRY_KINDS, MARGIN_MODES, expectedQuoteSign, feeInQuote, findPositionFlip, normalizePlan, parsePair, round, toIsoUtc, tradeDirection, tradePair } from './helpers';
+import type { RawFrontmatter } from './migrations';
+import type { Fill, Side } from './schema';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintFix {
+    label: string;
+    apply(fm: RawFrontmatter): void;
+}
+
+export interface LintProblem {
+    code: string;
+    severity: LintSeverity;
+    message: string;
+    fillIndex?: number;
+    fix?: LintFix;
+}
+
+const EPS = 1e-9;
+const sign = (n: number) => (n > EPS ? 1 : n < -EPS ? -1 : 0);
+const fillAt = (fm: RawFrontmatter, i: number): RawFrontmatter | null => (Array.isArray(fm.fills) && fm.fills[i] && typeof fm.fills[i] === 'object' ? fm.fills[i] : null);
+const lastFillTime = (fills: Partial<Fill>[]) => fills.reduce((mx, f) => { const t = Date.parse(String(f?.t ?? '')); return isNaN(t) ? mx : Math.max(mx, t); }, 0);
+
+// Checks a trade against the sign rules buildFill writes: in fills move base in the trade's
+// direction and pay quote (expectedQuoteSign), out fills do the opposite, and quote = -base * price.
+export const lintTrade = (fm: RawFrontmatter): LintProblem[] => {
+    const problems: LintProblem[] = [];
+    const action = String(fm?.action ?? '').toLowerCase();
+    if (action !== 'long' && action !== 'short') {
+        problems.push({ code: 'action', severity: 'error', message: `action must be long or short (got "${fm?.action ?? ''}")` });
+    }
+    const dir = tradeDirection(fm);
+
+    const pairQuote = parsePair(fm?.pair).quote;
+    if (!fm?.pair) problems.push({ code: 'pair-missing', severity: 'error', message: 'pair is missing' });
+    else if (fm.quote && String(fm.quote).toUpperCase() !== pairQuote) {
+        problems.push({
+            code: 'pair-quote', severity: 'error', message: `quote ${fm.quote} doesn't match pair ${fm.pair}`,
+            fix: { label: `Set quote to ${pairQuote}`, apply: (f) => { f.quote = pairQuote; } },
+        });
+    }
+
+    const fills: Partial<Fill>[] = Array.isArray(fm?.fills) ? fm.fills : [];
+    const pair = tradePair(fm);
+    let position = 0;
+    fills.forEach((f, i) => {
+        const n = i + 1;
+        const side = String(f?.side ?? '') as Side;
+        if (side !== 'in' && side !== 'out') {
+            problems.push({ code: 'fill-side', severity: 'error', message: `fill ${n}: side must be in or out`, fillIndex: i });
+            return;
+        }
+        const base = Number(f?.base), quote = Number(f?.quote), price = Number(f?.price);
+        if (!Number.isFinite(base) || !base) {
+            problems.push({ code: 'fill-base', severity: 'error', message: `fill ${n}: base is missing or zero`, fillIndex: i });
+            return;
+        }
+        position += base;
+        if (isNaN(Date.parse(String(f?.t ?? '')))) problems.push({ code: 'fill-time', severity: 'error', message: `fill ${n}: time "${f?.t ?? ''}" is not a valid date`, fillIndex: i });
+
+        const wantBase = dir * (side === 'in' ? 1 : -1);
+        if (sign(base) !== wantBase) {
+            problems.push({
+                code: 'base-sign', severity: 'error', fillIndex: i,
+                message: `fill ${n}: ${side} base ${base} contradicts ${dir === 1 ? 'long' : 'short'} (expected ${wantBase > 0 ? 'positive' : 'negative'})`,
+                fix: { label: 'Flip base sign', apply: (fw) => { const x = fillAt(fw, i); if (x) x.base = -Number(x.base); } },
+            });
+        }
+        const wantQuote = expectedQuoteSign(dir, side);
+        if (Number.isFinite(quote) && sign(quote) && sign(quote) !== wantQuote) {
+            problems.push({
+                code: 'quote-sign', severity: 'error', fillIndex: i,
+                message: `fill ${n}: ${side} quote ${quote} should be ${wantQuote > 0 ? 'received (>0)' : 'spent (<0)'}`,
+                fix: { label: 'Flip quote sign', apply: (fw) => { const x = fillAt(fw, i); if (x) x.quote = -Number(x.quote); } },
+            });
+        }
+        if (Number.isFinite(price) && price > 0 && Number.isFinite(quote)) {
+            const implied = -Math.abs(base) * wantBase * price;
+            if (Math.abs(Math.abs(quote) - Math.abs(implied)) > Math.max(1e-8, Math.abs(implied) * 1e-6)) {
+                problems.push({
+                    code: 'quote-price', severity: 'warning', fillIndex: i,
+                    message: `fill ${n}: quote ${quote} ≠ -base × price (${round(implied)})`,
+                    fix: {
+                        label: 'Recompute quote from price',
+                        apply: (fw) => { const x = fillAt(fw, i); if (x) x.quote = round(-Math.abs(Number(x.base)) * wantBase * Number(x.price)) ?? 0; },
+                    },
+                });
+            }
+        }
+        if (feeInQuote(f, pair) == null) problems.push({ code: 'fee-unpriced', severity: 'warning', fillIndex: i, message: `fill ${n}: fee in ${f?.fee_asset} has no fee_quote value` });
+    });
+
+    const flat = fills.length > 0 && Math.abs(position) < EPS;
+    const closedAt = fm?.closed_at ? Date.parse(String(fm.closed_at)) : NaN;
+    if (fm?.closed_at && isNaN(closedAt)) problems.push({ code: 'closed-at', severity: 'error', message: `closed_at "${fm.closed_at}" is not a valid date` });
+    if (fm?.closed_at && fills.length && !flat) {
+        problems.push({
+            code: 'closed-not-flat', severity: 'error', message: `closed_at is set but position is ${round(position)}`,
+            fix: { label: 'Remove closed_at (reopen)', apply: (fw) => { delete fw.closed_at; } },
+        });
+    }
+    const last = lastFillTime(fills);
+    if (!fm?.closed_at && flat && last) {
+        problems.push({
+            code: 'flat-not-closed', severity: 'warning', message: 'position is flat but closed_at is not set',
+            fix: { label: 'Set closed_at to last fill', apply: (fw) => { fw.closed_at = toIsoUtc(new Date(lastFillTime(fw.fills ?? []))); } },
+        });
+    }
+    if (!isNaN(closedAt)) {
+        fills.forEach((f, i) => {
+            const t = Date.parse(String(f?.t ?? ''));
+            if (!isNaN(t) && t > closedAt) problems.push({ code: 'fill-after-close', severity: 'error', fillIndex: i, message: `fill ${i + 1} is after closed_at` });
+        });
+    }
+
+    const flip = findPositionFlip(fm);
+    if (flip) {
+        problems.push({
+            code: 'position-flip', severity: 'error', fillIndex: flip.fillIndex,
+            message: `fill ${flip.fillIndex + 1} takes the position ${flip.excess} past zero; split it into an opposite trade`,
+        });
+    }
+
+    const stops: RawFrontmatter[] = Array.isArray(fm?.stop_history) ? fm.stop_history : [];
+    let lastStop = Number(fm?.initial_stop);
+    stops.forEach((m, i) => {
+        const price = Number(m?.price);
+        if (!Number.isFinite(price) || price <= 0 || isNaN(Date.parse(String(m?.t ?? '')))) {
+            problems.push({ code: 'stop-history', severity: 'error', message: `stop move ${i + 1} needs a valid time and price` });
+            return;
+        }
+        if (Number.isFinite(lastStop) && sign(dir * (price - lastStop)) < 0) problems.push({ code: 'stop-widened', severity: 'warning', message: `stop move ${i + 1} widens the stop from ${lastStop} to ${price}` });
+        lastStop = price;
+    });
+
+    if (fm?.leverage != null && !(Number(fm.leverage) > 0)) problems.push({ code: 'leverage', severity: 'error', message: `leverage must be a number > 0 (got "${fm.leverage}")` });
+    if (fm?.margin_mode != null && !MARGIN_MODES.includes(fm.margin_mode)) problems.push({ code: 'margin-mode', severity: 'warning', message: `margin_mode must be isolated or cross; "${fm.margin_mode}" is treated as isolated` });
+
+    const carry: RawFrontmatter[] = Array.isArray(fm?.carry) ? fm.carry : [];
+    carry.forEach((c, i) => {
+        const t = Date.parse(String(c?.t ?? ''));
+        if (c?.amount == null || c.amount === '' || !Number.isFinite(Number(c.amount)) || isNaN(t)) {
+            problems.push({ code: 'carry', severity: 'error', message: `carry entry ${i + 1} needs a valid time and amount` });
+            return;
+        }
+        if (!CARRY_KINDS.includes(c?.kind)) problems.push({ code: 'carry-kind', severity: 'warning', message: `carry entry ${i + 1}: kind "${c?.kind ?? ''}" is not one of ${CARRY_KINDS.join(', ')}; counted as funding` });
+        if (!isNaN(closedAt) && t > closedAt) problems.push({ code: 'carry-after-close', severity: 'warning', message: `carry entry ${i + 1} is after closed_at` });
+    });
+
+    const plan = normalizePlan(fm?.plan);
+    if (plan) {
+        const planned = plan.targets.reduce((acc, t) => acc + t.size, 0);
+        if (planned > 1 + EPS) problems.push({ code: 'plan-size', severity: 'warning', message: `plan targets add up to ${round(planned * 100, 2)}% of the position` });
+        const entry = plan.low != null && plan.high != null ? (plan.low + plan.high) / 2 : null;
+        if (entry != null && plan.stop != null && sign(dir * (entry - plan.stop)) <= 0) {
+            problems.push({ code: 'plan-stop', severity: 'warning', message: `plan stop ${plan.stop} is not on the losing side of the entry` });
+        }
+        plan.targets.forEach((t, i) => {
+            if (entry != null && sign(dir * (t.price - entry)) <= 0) problems.push({ code: 'plan-target', severity: 'warning', message: `plan target ${i + 1} (${t.price}) is not beyond the entry` });
+        });
+    }
+    return problems;
+};
@@ -11,9 +11,9 @@ import {
 	TextComponent,
 	stringifyYaml,
 	WorkspaceLeaf,
+	debounce,
 } from 'obsidian';
 import {
-	pad,
 	toIsoUtc,
 	parseNum,
 	parsePair,
@@ -26,20 +26,107 @@ import {
 	formatDateTimeInZone,
 	getAvailableTimeZones,
 	getSystemTimeZone,
+	isCostBasis,
+	MetricsOptions,
+	tradePair,
+	tradeDirection,
+	reconcileClosedAt,
+	normalizePlan,
+	carryEntries,
+	CARRY_KINDS,
+	MARGIN_MODES,
+	marginMode,
+	tradeLeverage,
+	currentStop,
+	findPositionFlip,
+	splitAtFlip,
+	parseEntryZone,
+	parseTargets,
+	round,
 } from './helpers';
-import { Action, Side, TradeFrontmatter, Fill } from './schema';
+import { Action, CarryEntry, CarryKind, MarginMode, Side, StopMove, TradeFrontmatter, TradePlan, Fill, CostBasis } from './schema';
 import { TradePaneView, VIEW_TYPE_TRADE, TradePaneCallbacks } from './trade-pane';
+import { PriceTable, parsePriceSnapshot, lookupPrice } from './prices';
+import { FxTable, fxRate, parseFxTable } from './fx';
+import { Candle, bestPriceRange, isCandleFileFor, parseCandles, savedPriceRange } from './candles';
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions, buildExport, selectForExport } from './export';
+import { ExportModal } from './export-modal';
+import { TAX_LOT_METHODS, TaxLotMethod, TaxRules, buildTaxReport, taxReportCsv, taxReportMarkdown } from './taxes';
+import { CarryPlan, CarryTradeRef, ColumnMapping, FUNDING_PRESETS, IMPORT_PRESETS, ImportPlan, ImportPlanEntry, OpenTradeRef } from './importer';
+import { FundingImportModal, ImportModal } from './import-modal';
+import { DashboardView, VIEW_TYPE_DASHBOARD } from './dashboard-view';
+import { TradeRecord, filterFromQuery, filterTrades, parseBlockQuery } from './stats';
+import { equitySeries, rHistogram, renderEquityCurve, renderRHistogram } from './charts';
+import { CURRENT_SCHEMA_VERSION, canMigrate, migrateFrontmatter, schemaVersionOf } from './migrations';
+import { MigrationReportItem, MigrationReportModal } from './migration-modal';
+import { LintProblem, lintTrade } from './lint';
+import { ProblemsView, VIEW_TYPE_PROBLEMS } from './problems-view';
+import { SizingModal } from './sizing-modal';
+import { TRADE_PATH_TOKENS, TradeNotePath, TradePathVars, resolveTradePath } from './paths';
+import { TradeTableBlock } from './trade-table-block';
+import { CalendarView, VIEW_TYPE_CALENDAR } from './calendar-view';
+import { BODY_TEMPLATE_TOKENS, bodyTemplateValues, fillTemplate, previousTradeOnPair } from './templates';
+import { Setup, checklistMarkdown, mergeSetups, parseSetupNote, setupStop } from './setups';
+import { Account, LedgerEntry, RealizedEvent, accountEquityAt, accountSummary, findAccount, mergeAccounts, parseAccountsNote, parseLedger, sameAccount } from './accounts';
 
 interface AceTradingSettings {
 	tradesRoot: string;
-	filenamePattern: string; // supports ${YYYY}${MM}${DD}${HH}${mm}, ${PAIR}, ${ACTION}
+	folderPattern: string; // under tradesRoot; same tokens as filenamePattern, '/' separates folders
+	filenamePattern: string; // tokens: TRADE_PATH_TOKENS, e.g. ${YYYY}, ${PAIR}, ${ACCOUNT}, ${SEQ}
 	bodyTemplatePath: string; // markdown template for body
+	templateTimeZone: string; // zone for ${DATE} and ${TIME} in the body; empty uses the system zone
+	calendarTimeZone: string; // day boundaries in the PnL calendar; empty uses the system zone
+	costBasis: CostBasis; // default lot matching for exits; trades may override via cost_basis
+	markPricePath: string; // CSV or JSON of symbol -> price kept in the vault
+	reportingCurrency: string; // empty keeps PnL in each trade's quote
+	fxTablePath: string; // CSV or JSON of daily asset -> reporting currency rates
+	candlesFolder: string; // OHLCV CSVs named after the pair, e.g. BTCUSDT-1h.csv
+	exportOptions: ExportOptions; // last Export Trades run
+	taxReport: TaxRules & { folder: string }; // last Tax Report run
+	importMappings: ColumnMapping[]; // custom CSV column mappings, offered after the presets
+	lintOnModify: boolean; // re-check a trade's integrity whenever its frontmatter changes
+	defaultRiskPct: number; // % of equity risked per trade in sizing mode
+	maintenanceMarginPct: number; // for liquidation estimates; trades may override via maintenance_margin_pct
+	accounts: AccountSettings[];
+	accountsNotePath: string; // optional note whose frontmatter lists more accounts (and their ledgers)
+	setups: SetupSettings[];
+	setupsFolder: string; // optional folder of setup notes; overrides settings setups of the same name
+}
+
+type SetupSettings = Omit<Setup, 'source'>;
+
+interface AccountSettings {
+	name: string;
+	baseCurrency: string;
+	startingBalance: number | null;
+	startedAt?: string;
+	riskPct: number | null; // overrides defaultRiskPct
+	ledger: LedgerEntry[]; // deposits > 0, withdrawals < 0
+	template?: string; // body template for this account's trades
 }
 
 const DEFAULT_SETTINGS: AceTradingSettings = {
 	tradesRoot: 'Efforts/Ongoing/Trading/Trades',
+	folderPattern: '${YYYY}',
 	filenamePattern: 'T-${YYYY}${MM}${DD}-${HH}${mm}-${PAIR}-${ACTION}',
-	bodyTemplatePath: 'utils/templates/trading/trade-body.md'
+	bodyTemplatePath: 'utils/templates/trading/trade-body.md',
+	templateTimeZone: '',
+	calendarTimeZone: '',
+	costBasis: 'average',
+	markPricePath: '',
+	reportingCurrency: '',
+	fxTablePath: '',
+	candlesFolder: '',
+	exportOptions: DEFAULT_EXPORT_OPTIONS,
+	taxReport: { method: 'fifo', longTermDays: 365, yearStart: '01-01', folder: 'Trading/Tax' },
+	importMappings: [],
+	lintOnModify: false,
+	defaultRiskPct: 1,
+	maintenanceMarginPct: 0.5,
+	accounts: [],
+	accountsNotePath: '',
+	setups: [],
+	setupsFolder: '',
 };
 
 const pickFromModal = <T>(picker: SuggestModal<T>): Promise<T | null> =>
@@ -61,13 +148,13 @@ const pickFromModal = <T>(picker: SuggestModal<T>): Promise<T | null> =>
 
 const pickTrade = async (app: App, rootPath: string) => {
 	const active = app.workspace.getActiveFile();
-	if (isTradeFile(active, rootPath)) return active;
+	if (isTradeFile(app, active, rootPath)) return active;
 	return await pickFromModal(new TradeFilePicker(app, { rootPath }))
 };
 
 const pickOpenTrade = async (app: App, rootPath: string) => {
 	const active = app.workspace.getActiveFile();
-	if (isTradeFile(active, rootPath)) return active;
+	if (isTradeFile(app, active, rootPath)) return active;
 	return await pickFromModal(new TradeFilePicker(app, { rootPath, filter: openTradesOnlyFilter(app) }))
 };
 
@@ -88,7 +175,7 @@ class TradeFilePicker extends SuggestModal<TFile> {
 		const pass = filter ?? (() => true);
 		this.files = app.vault
 			.getMarkdownFiles()
-			.filter(ff => isTradeFile(ff, rootPath))
+			.filter(ff => isTradeFile(app, ff, rootPath))
 			.filter(pass)
 			.sort((a, b) => b.stat.mtime - a.stat.mtime);
 	}
@@ -106,6 +193,27 @@ class FilePicker extends SuggestModal<TFile> {
 	renderSuggestion(value: TFile, el: HTMLElement) { el.setText(value.path); }
 	onChooseSuggestion(item: TFile) { this.onChoose?.(item); }
 }
+class CsvFilePicker extends SuggestModal<TFile> {
+	files: TFile[];
+	onChoose?: (f: TFile) => void;
+	constructor(app: App) { super(app); this.files = app.vault.getFiles().filter(f => f.extension.toLowerCase() === 'csv').sort((a, b) => b.stat.mtime - a.stat.mtime); this.setPlaceholder('Select CSV export…'); }
+	getSuggestions(query: string): TFile[] { const q = query.toLowerCase(); return this.files.filter(f => f.path.toLowerCase().includes(q)).slice(0, 200); }
+	renderSuggestion(value: TFile, el: HTMLElement) { el.setText(value.path); }
+	onChooseSuggestion(item: TFile) { this.onChoose?.(item); }
+}
+// Leads with a "No setup" entry so New Trade can go on without one; closing the picker cancels.
+const NO_SETUP: Setup = { name: '', description: '', stopDistance: '', tags: [], account: '', checklist: [], source: 'settings' };
+class SetupPicker extends SuggestModal<Setup> {
+	setups: Setup[];
+	onChoose?: (s: Setup) => void;
+	constructor(app: App, setups: Setup[]) { super(app); this.setups = [NO_SETUP, ...setups]; this.setPlaceholder('Pick a setup…'); }
+	getSuggestions(query: string): Setup[] { const q = query.toLowerCase(); return this.setups.filter(s => !s.name || s.name.toLowerCase().includes(q)); }
+	renderSuggestion(value: Setup, el: HTMLElement) {
+		el.createDiv({ text: value.name || 'No setup' });
+		if (value.description) el.createEl('small', { text: value.description });
+	}
+	onChooseSuggestion(item: Setup) { this.onChoose?.(item); }
+}
 class FolderPicker extends SuggestModal<TFolder> {
 	folders: TFolder[];
 	onChoose?: (f: TFolder) => void;
@@ -122,15 +230,75 @@ class FolderPicker extends SuggestModal<TFolder> {
 	renderSuggestion(value: TFolder, el: HTMLElement) { el.setText(value.path); }
 	onChooseSuggestion(item: TFolder) { this.onChoose?.(item); }
 }
+
+type NewTradeInput = {
+	base: string;
+	quote: string;
+	action: Action;
+	when: Date;
+	fills: Fill[];
+	tags?: string[];
+	account?: string;
+	initialStop?: number;
+	setup?: Setup;
+	leverage?: number;
+	marginMode?: MarginMode;
+	closedAt?: Date;
+	flippedFrom?: TFile;
+};
+
 type InputField = {
 	id: string;
 	label: string;
 	placeholder?: string;
 	default?: string;
-	type?: 'text' | 'datetime';
+	type?: 'text' | 'datetime' | 'dropdown';
 	defaultTimezone?: string;
+	options?: string[]; // dropdown choices; '' renders as "None"
+};
+
+const feeFields = (quoteSym: string, fill?: Partial<Fill>): InputField[] => [
+	{ id: 'fee', label: 'Fee (optional, paid>0/rebate<0)', default: fill?.fee != null ? String(fill.fee) : undefined },
+	{ id: 'fee_asset', label: 'Fee asset (quote, base or token e.g. BNB)', default: fill?.fee_asset || quoteSym || 'quote' },
+	{ id: 'fee_quote', label: 'Fee value in quote (required for third-token fees)', default: fill?.fee_quote != null ? String(fill.fee_quote) : undefined },
+];
+
+// 'quote'/'base' shorthands resolve to the pair's symbols; third-token fees must be valued in quote.
+const parseFeeInput = (vals: Record<string, string>, pair: { base: string; quote: string }) => {
+	const fee = parseNum(vals.fee);
+	if (!Number.isFinite(fee) || fee === 0) return { fee: null, feeAsset: undefined, feeQuote: null };
+	const raw = (vals.fee_asset || 'quote').trim().toUpperCase();
+	const feeAsset = raw === 'QUOTE' ? pair.quote : raw === 'BASE' ? pair.base : raw;
+	const feeQuote = parseNum(vals.fee_quote);
+	if (feeAsset !== pair.quote && feeAsset !== pair.base && !Number.isFinite(feeQuote)) throw new Error(`Fee in ${feeAsset} needs a value in ${pair.quote}`);
+	return { fee, feeAsset, feeQuote: Number.isFinite(feeQuote) ? feeQuote : null };
+};
+
+// Shared by Add Fill and Edit Fill; returns a message instead of a fill when the input is unusable.
+const fillFromInput = (vals: Record<string, string>, dir: number, pair: { base: string; quote: string }, txs?: string[]): Fill | string => {
+	const side = (vals.side || 'in').toLowerCase() as Side;
+	if (side !== 'in' && side !== 'out') return 'Side must be in or out';
+	const amt = parseNum(vals.amount); if (!Number.isFinite(amt) || amt <= 0) return 'Amount must be > 0';
+	const q = parseNum(vals.quote); if (!Number.isFinite(q) || q === 0) return 'Quote must be non-zero';
+	const exp = expectedQuoteSign(dir, side); const quote = Math.abs(q) * exp; if (Math.sign(q) !== exp) new Notice(`Adjusted quote: ${q} -> ${quote}`);
+	const when = toUtcDateFromInput(vals.time || '', new Date(), vals['time_tz'])!;
+	let fee; try { fee = parseFeeInput(vals, pair); } catch (e) { return (e as Error).message; }
+	return buildFill({ dir, side, amount: amt, quote, when, note: vals.note || '', txs, ...fee });
 };
 
+class ConfirmModal extends Modal {
+	private readonly message: string;
+	private readonly onConfirm: () => void;
+	constructor(app: App, message: string, onConfirm: () => void) { super(app); this.message = message; this.onConfirm = onConfirm; }
+	onOpen() {
+		const { contentEl } = this; contentEl.empty(); contentEl.createEl('p', { text: this.message });
+		new Setting(contentEl)
+			.addButton(b => b.setButtonText('Cancel').onClick(() => this.close()))
+			.addButton(b => b.setWarning().setButtonText('Confirm').onClick(() => { this.close(); this.onConfirm(); }));
+	}
+	onClose() { this.contentEl.empty(); }
+}
+
 class InputModal extends Modal {
 	titleStr: string;
 	fields: InputField[];
@@ -170,6 +338,14 @@ class InputModal extends Modal {
 					dropdown.setValue(tzDefault);
 					dropdown.onChange(value => this.values[`${f.id}_tz`] = value);
 				});
+			} else if (f.type === 'dropdown') {
+				setting.addDropdown(dropdown => {
+					(f.options ?? []).forEach(o => dropdown.addOption(o, o || 'None'));
+					const initial = f.default ?? f.options?.[0] ?? '';
+					dropdown.setValue(initial);
+					this.values[f.id] = initial;
+					dropdown.onChange(value => this.values[f.id] = value);
+				});
 			} else {
 				renderText();
 			}
@@ -222,14 +398,109 @@ class AceTradingSettingsTab extends PluginSettingTab {
 			});
 		});
 
+		const tokens = TRADE_PATH_TOKENS.map(t => `\${${t}}`).join(' ');
+		new Setting(containerEl)
+			.setName('Folder Pattern')
+			.setDesc(`Folders under the trades root, '/' separated. Vars: ${tokens}`)
+			.addText(t => t.setValue(this.plugin.settings.folderPattern).onChange(async (v) => { this.plugin.settings.folderPattern = v.trim().replace(/^\/+|\/+$/g, ''); await this.plugin.saveSettings(); }));
+
 		new Setting(containerEl)
 			.setName('Filename Pattern')
-			.setDesc('Vars: ${YYYY}${MM}${DD}${HH}${mm}, ${PAIR}, ${ACTION}')
+			.setDesc(`Vars: ${tokens}. \${SEQ} counts up from 001 until the name is free.`)
 			.addText(t => t.setValue(this.plugin.settings.filenamePattern).onChange(async (v) => { this.plugin.settings.filenamePattern = v; await this.plugin.saveSettings(); }));
 
+		new Setting(containerEl)
+			.setName('Cost Basis Method')
+			.setDesc('How exits are matched to entries for realized PnL; a trade can override with cost_basis in frontmatter')
+			.addDropdown(d => d
+				.addOption('average', 'Average cost')
+				.addOption('fifo', 'FIFO')
+				.addOption('lifo', 'LIFO')
+				.setValue(this.plugin.settings.costBasis)
+				.onChange(async (v) => { if (isCostBasis(v)) this.plugin.settings.costBasis = v; await this.plugin.saveSettings(); }));
+
+		new Setting(containerEl)
+			.setName('Default Risk %')
+			.setDesc('Share of account equity risked per trade in New Trade (Risk Sizing); accounts can override')
+			.addText(t => t.setValue(String(this.plugin.settings.defaultRiskPct)).onChange(async (v) => {
+				const n = parseNum(v);
+				if (Number.isFinite(n) && n > 0) { this.plugin.settings.defaultRiskPct = n; await this.plugin.saveSettings(); }
+			}));
+
+		new Setting(containerEl)
+			.setName('Maintenance Margin %')
+			.setDesc('Used to estimate liquidation prices of leveraged trades; a trade can override with maintenance_margin_pct')
+			.addText(t => t.setValue(String(this.plugin.settings.maintenanceMarginPct)).onChange(async (v) => {
+				const n = parseNum(v);
+				if (Number.isFinite(n) && n >= 0 && n < 100) { this.plugin.settings.maintenanceMarginPct = n; await this.plugin.saveSettings(); }
+			}));
+
+		this.displayAccounts(containerEl.createDiv());
+		this.displaySetups(containerEl.createDiv());
+
+		// Re-read once typing settles so a new path takes effect without reloading the plugin.
+		const reloadMarks = debounce(() => this.plugin.loadMarkPrices(false), 1000, true);
+		const reloadFx = debounce(() => this.plugin.loadFxTable(), 1000, true);
+		new Setting(containerEl)
+			.setName('Mark Price File')
+			.setDesc('CSV (symbol,price) or JSON (symbol → price) used to mark open trades; a trade\'s own mark wins')
+			.addText(t => t
+				.setPlaceholder('Trading/prices.json')
+				.setValue(this.plugin.settings.markPricePath)
+				.onChange(async (v) => { this.plugin.settings.markPricePath = v.trim(); await this.plugin.saveSettings(); reloadMarks(); }));
+
+		new Setting(containerEl)
+			.setName('Reporting Currency')
+			.setDesc('Realized PnL is also stored in this currency, converted at the closed_at rate; run Bulk Recompute after changing it')
+			.addText(t => t
+				.setPlaceholder('USD')
+				.setValue(this.plugin.settings.reportingCurrency)
+				.onChange(async (v) => { this.plugin.settings.reportingCurrency = v.trim().toUpperCase(); await this.plugin.saveSettings(); }));
+
+		new Setting(containerEl)
+			.setName('FX Rate File')
+			.setDesc('CSV (date,asset,rate) or JSON (asset → date → rate) of daily rates into the reporting currency')
+			.addText(t => t
+				.setPlaceholder('Trading/fx.csv')
+				.setValue(this.plugin.settings.fxTablePath)
+				.onChange(async (v) => { this.plugin.settings.fxTablePath = v.trim(); await this.plugin.saveSettings(); reloadFx(); }));
+
+		new Setting(containerEl)
+			.setName('Candles Folder')
+			.setDesc('OHLCV CSV files named after the pair (BTCUSDT.csv, BTC-USDT-1h.csv); used for MAE/MFE when metrics are recomputed')
+			.addText(t => t
+				.setPlaceholder('Trading/Candles')
+				.setValue(this.plugin.settings.candlesFolder)
+				.onChange(async (v) => { this.plugin.settings.candlesFolder = v.trim().replace(/\/+$/, ''); await this.plugin.saveSettings(); }));
+
+		new Setting(containerEl)
+			.setName('Check Trades on Change')
+			.setDesc('Run the integrity checks whenever a trade note\'s frontmatter changes')
+			.addToggle(t => t.setValue(this.plugin.settings.lintOnModify).onChange(async (v) => { this.plugin.settings.lintOnModify = v; await this.plugin.saveSettings(); }));
+
+		new Setting(containerEl)
+			.setName('Custom Import Mappings')
+			.setDesc(`JSON array of column mappings (name, time, pair, side, amount, price/total, fee, feeAsset, account, txId; '|' separates header aliases). Presets: ${IMPORT_PRESETS.map(p => p.name).join(', ')}`)
+			.addTextArea(t => {
+				t.inputEl.rows = 6;
+				t.setPlaceholder('[{ "name": "My Exchange", "time": "Time", "pair": "Market", "side": "Side", "amount": "Qty", "price": "Price" }]');
+				t.setValue(this.plugin.settings.importMappings.length ? JSON.stringify(this.plugin.settings.importMappings, null, 2) : '');
+				t.onChange(async (v) => {
+					try {
+						const parsed = v.trim() ? JSON.parse(v) : [];
+						if (!Array.isArray(parsed)) throw new Error('not an array');
+						this.plugin.settings.importMappings = parsed.filter((m: Partial<ColumnMapping>) => m?.name && m.time && m.pair && m.side && m.amount && (m.price || m.total));
+						t.inputEl.removeClass('ace-invalid');
+						await this.plugin.saveSettings();
+					} catch {
+						t.inputEl.addClass('ace-invalid');
+					}
+				});
+			});
+
 		const templateSetting = new Setting(containerEl)
 			.setName('Trade Body Template Path')
-			.setDesc('Path to Markdown template for note body; frontmatter is injected by plugin');
+			.setDesc(`Path to Markdown template for note body; frontmatter is injected by plugin. Placeholders: ${BODY_TEMPLATE_TOKENS.map(t => `\${${t}}`).join(', ')}. Setups and accounts can name their own template.`);
 		let templateInput: TextComponent | null = null;
 		templateSetting.addText(t => {
 			templateInput = t;
@@ -255,21 +526,124 @@ class AceTradingSettingsTab extends PluginSettingTab {
 				picker.open();
 			});
 		});
+
+		new Setting(containerEl)
+			.setName('Template Time Zone')
+			.setDesc('IANA zone for ${DATE} and ${TIME} in the body template, e.g. Europe/Berlin; empty uses the system zone')
+			.addText(t => t.setPlaceholder(getSystemTimeZone()).setValue(this.plugin.settings.templateTimeZone).onChange(async (v) => { this.plugin.settings.templateTimeZone = v.trim(); await this.plugin.saveSettings(); }));
+	}
+
+	private displayAccounts(el: HTMLElement): void {
+		el.empty();
+		new Setting(el)
+			.setName('Accounts')
+			.setDesc('Name, base currency, starting balance and optional risk % override. Deposits and withdrawals are recorded with the "Record Deposit/Withdrawal" command.')
+			.setHeading()
+			.addButton(b => b.setButtonText('Add account').onClick(async () => {
+				this.plugin.settings.accounts.push({ name: `Account ${this.plugin.settings.accounts.length + 1}`, baseCurrency: 'USDT', startingBalance: null, riskPct: null, ledger: [] });
+				await this.plugin.saveSettings();
+				this.displayAccounts(el);
+			}));
+		const optionalNum = (v: string) => { const n = parseNum(v); return Number.isFinite(n) && n > 0 ? n : null; };
+		this.plugin.settings.accounts.forEach((account, i) => {
+			const flows = account.ledger.reduce((acc, e) => acc + e.amount, 0);
+			new Setting(el)
+				.setDesc(account.ledger.length ? `${account.ledger.length} ledger entries, net ${flows}` : '')
+				.addText(t => t.setPlaceholder('Name').setValue(account.name).onChange(async (v) => { account.name = v.trim(); await this.plugin.saveSettings(); }))
+				.addText(t => t.setPlaceholder('Currency').setValue(account.baseCurrency).onChange(async (v) => { account.baseCurrency = v.trim().toUpperCase(); await this.plugin.saveSettings(); }))
+				.addText(t => t.setPlaceholder('Starting balance').setValue(account.startingBalance != null ? String(account.startingBalance) : '').onChange(async (v) => { account.startingBalance = optionalNum(v); await this.plugin.saveSettings(); }))
+				.addText(t => t.setPlaceholder('Risk %').setValue(account.riskPct != null ? String(account.riskPct) : '').onChange(async (v) => { account.riskPct = optionalNum(v); await this.plugin.saveSettings(); }))
+				.addText(t => t.setPlaceholder('Body template').setValue(account.template ?? '').onChange(async (v) => { account.template = v.trim() || undefined; await this.plugin.saveSettings(); }))
+				.addExtraButton(b => b.setIcon('trash').setTooltip('Remove account').onClick(async () => {
+					this.plugin.settings.accounts.splice(i, 1);
+					await this.plugin.saveSettings();
+					this.displayAccounts(el);
+				}));
+		});
+		new Setting(el)
+			.setName('Accounts Note')
+			.setDesc('Optional note with an `accounts` list in frontmatter (name, base_currency, starting_balance, started_at, risk_pct, ledger, template); overrides settings accounts of the same name')
+			.addText(t => t.setPlaceholder('Trading/Accounts.md').setValue(this.plugin.settings.accountsNotePath).onChange(async (v) => { this.plugin.settings.accountsNotePath = v.trim(); await this.plugin.saveSettings(); }));
 	}
+
+	private displaySetups(el: HTMLElement): void {
+		el.empty();
+		new Setting(el)
+			.setName('Setups')
+			.setDesc('Playbook offered by New Trade: stop distance (2% or a price distance), default tags and account, and a checklist written into the note.')
+			.setHeading()
+			.addButton(b => b.setButtonText('Add setup').onClick(async () => {
+				this.plugin.settings.setups.push({ name: `Setup ${this.plugin.settings.setups.length + 1}`, description: '', stopDistance: '', tags: [], account: '', checklist: [] });
+				await this.plugin.saveSettings();
+				this.displaySetups(el);
+			}));
+		const split = (v: string, sep: RegExp) => v.split(sep).map(x => x.trim()).filter(Boolean);
+		this.plugin.settings.setups.forEach((setup, i) => {
+			new Setting(el)
+				.addText(t => t.setPlaceholder('Name').setValue(setup.name).onChange(async (v) => { setup.name = v.trim(); await this.plugin.saveSettings(); }))
+				.addText(t => t.setPlaceholder('Stop distance').setValue(setup.stopDistance).onChange(async (v) => { setup.stopDistance = v.trim(); await this.plugin.saveSettings(); }))
+				.addText(t => t.setPlaceholder('Tags').setValue(setup.tags.join(' ')).onChange(async (v) => { setup.tags = split(v, /[\s,]+/).map(tag => tag.replace(/^#/, '')); await this.plugin.saveSettings(); }))
+				.addText(t => t.setPlaceholder('Account').setValue(setup.account).onChange(async (v) => { setup.account = v.trim(); await this.plugin.saveSettings(); }))
+				.addExtraButton(b => b.setIcon('trash').setTooltip('Remove setup').onClick(async () => {
+					this.plugin.settings.setups.splice(i, 1);
+					await this.plugin.saveSettings();
+					this.displaySetups(el);
+				}));
+			new Setting(el)
+				.setClass('ace-setup-details')
+				.addText(t => t.setPlaceholder('Description').setValue(setup.description).onChange(async (v) => { setup.description = v.trim(); await this.plugin.saveSettings(); }))
+				.addText(t => t.setPlaceholder('Checklist items, separated by ;').setValue(setup.checklist.join('; ')).onChange(async (v) => { setup.checklist = split(v, /;/); await this.plugin.saveSettings(); }))
+				.addText(t => t.setPlaceholder('Body template').setValue(setup.template ?? '').onChange(async (v) => { setup.template = v.trim() || undefined; await this.plugin.saveSettings(); }));
+		});
+		new Setting(el)
+			.setName('Setups Folder')
+			.setDesc('Optional folder with one note per setup (frontmatter: name, description, stop_distance, tags, account, checklist, template); overrides settings setups of the same name')
+			.addText(t => t.setPlaceholder('Trading/Playbook').setValue(this.plugin.settings.setupsFolder).onChange(async (v) => { this.plugin.settings.setupsFolder = v.trim().replace(/\/+$/, ''); await this.plugin.saveSettings(); }));
+	}
+
 }
 
 export default class AceTradingPlugin extends Plugin {
 	settings: AceTradingSettings;
 	private lastTradeFile: TFile | null = null;
+	private markPrices: PriceTable = {};
+	private fxTable: FxTable = {};
+	private candles = new Map<string, Candle[]>(); // parsed candle files by path
+	private candleIndex: { folder: string; files: TFile[] } | null = null; // CSVs in the candles folder; dropped when files come and go
+	private schemaWarned = new Set<string>();
+	private flipWarned = new Set<string>();
+	private lintWarned = new Map<string, string>(); // path -> the error set last shown as a notice
+	private realizedByAccount: Map<string, RealizedEvent[]> | null = null;
 
 	async onload() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Copy so the defaults' array is never mutated; accounts saved with a plain `equity` start from it.
+		this.settings.accounts = (this.settings.accounts ?? []).map((a: AccountSettings & { equity?: number | null }) => {
+			const { equity, ...rest } = a;
+			return { ...rest, baseCurrency: rest.baseCurrency ?? '', startingBalance: rest.startingBalance ?? equity ?? null, ledger: parseLedger(rest.ledger) };
+		});
+		this.settings.taxReport = { ...DEFAULT_SETTINGS.taxReport, ...this.settings.taxReport };
+		const exportOptions = this.settings.exportOptions;
+		this.settings.exportOptions = {
+			...DEFAULT_EXPORT_OPTIONS,
+			...exportOptions,
+			columns: { ...DEFAULT_EXPORT_OPTIONS.columns, ...exportOptions?.columns },
+		};
 		this.addSettingTab(new AceTradingSettingsTab(this.app, this));
 
 		const callbacks: TradePaneCallbacks = {
 			recompute: (file) => this.recomputeTrade(file, true),
 			addFill: (file) => this.openAddFillModal(file),
 			closeTrade: (file) => this.openCloseTradeModal(file),
+			metricsOptions: (fm) => this.metricsOptions(fm),
+			editFill: (file, index) => this.openEditFillModal(file, index),
+			deleteFill: (file, index) => this.confirmDeleteFill(file, index),
+			duplicateFill: (file, index) => this.duplicateFill(file, index),
+			moveFill: (file, index, by) => this.moveFill(file, index, by),
+			editPlan: (file) => this.openPlanModal(file),
+			moveStop: (file) => this.openMoveStopModal(file),
+			addCarry: (file) => this.openCarryModal(file),
+			splitFlip: (file) => this.splitPositionFlip(file),
 		};
 
 		this.registerView(
@@ -277,6 +651,58 @@ export default class AceTradingPlugin extends Plugin {
 			(leaf: WorkspaceLeaf) => new TradePaneView(leaf, callbacks)
 		);
 
+		this.registerView(
+			VIEW_TYPE_DASHBOARD,
+			(leaf: WorkspaceLeaf) => new DashboardView(leaf, {
+				collectTrades: () => this.collectTrades(),
+				persistedTrades: () => this.persistedTrades(),
+				openTrade: (path) => this.openTradePath(path),
+				accountSummary: (name) => {
+					const account = findAccount(this.getAccounts(), name);
+					return account ? accountSummary(account, this.realizedEvents(account), Date.now()) : null;
+				},
+			})
+		);
+
+		this.registerView(
+			VIEW_TYPE_CALENDAR,
+			(leaf: WorkspaceLeaf) => new CalendarView(leaf, {
+				trades: () => this.persistedTrades(),
+				openTrade: (path) => this.openTradePath(path),
+				timeZone: () => this.settings.calendarTimeZone || getSystemTimeZone(),
+				setTimeZone: async (zone) => { this.settings.calendarTimeZone = zone; await this.saveSettings(); },
+			})
+		);
+
+		this.registerView(
+			VIEW_TYPE_PROBLEMS,
+			(leaf: WorkspaceLeaf) => new ProblemsView(leaf, {
+				lintAll: () => this.lintAllTrades(),
+				openTrade: (path) => this.openTradePath(path),
+				applyFix: (path, problem) => this.applyLintFix(path, problem),
+			})
+		);
+		this.addCommand({ id: 'ace-lint-trades', name: 'Check Trade Integrity', callback: () => this.lintAllTrades() });
+
+		this.registerMarkdownCodeBlockProcessor('ace-chart', (source, el) => this.renderChartBlock(source, el));
+		this.registerMarkdownCodeBlockProcessor('ace-trades', (source, el, ctx) => ctx.addChild(new TradeTableBlock(this.app, el, source, {
+			trades: () => this.persistedTrades(),
+			isTrade: (file) => isTradeFile(this.app, file, this.settings.tradesRoot),
+			openTrade: (path) => this.openTradePath(path),
+		})));
+
+		this.addCommand({
+			id: 'ace-open-dashboard',
+			name: 'Show Performance Dashboard',
+			callback: () => this.activateDashboard(),
+		});
+
+		this.addCommand({
+			id: 'ace-open-calendar',
+			name: 'Show PnL Calendar',
+			callback: () => this.activateCalendar(),
+		});
+
 		this.addCommand({
 			id: 'ace-open-trade-pane',
 			name: 'Show Trade Pane',
@@ -284,16 +710,71 @@ export default class AceTradingPlugin extends Plugin {
 		});
 
 		this.addCommand({ id: 'ace-new-trade', name: 'New Trade', callback: () => this.newTrade() });
+		this.addCommand({ id: 'ace-new-trade-sized', name: 'New Trade (Risk Sizing)', callback: () => this.newSizedTrade() });
 		this.addCommand({ id: 'ace-add-fill', name: 'Add Trade Fill', callback: () => this.addFill() });
+		this.addCommand({ id: 'ace-split-flip', name: 'Split Position Flip', callback: () => this.splitFlip() });
+		this.addCommand({ id: 'ace-move-stop', name: 'Move Stop', callback: () => this.moveStop() });
+		this.addCommand({ id: 'ace-add-funding', name: 'Add Funding', callback: () => this.addCarry() });
+		this.addCommand({ id: 'ace-edit-plan', name: 'Edit Trade Plan', callback: () => this.editPlan() });
 		this.addCommand({ id: 'ace-close-trade', name: 'Close Trade', callback: () => this.closeTrade() });
 		this.addCommand({ id: 'ace-recompute-trade', name: 'Recompute Trade Metrics (current or pick)', callback: () => this.recomputeOne() });
 		this.addCommand({ id: 'ace-bulk-recompute', name: 'Bulk Recompute Trade Metrics (folder/year)', callback: () => this.bulkRecompute() });
+		this.addCommand({ id: 'ace-record-ledger', name: 'Record Deposit/Withdrawal', callback: () => this.recordLedgerEntry() });
+		this.addCommand({ id: 'ace-rename-trade', name: 'Rename/Move Trade to Match Pattern', callback: () => this.renameTrade() });
+		this.addCommand({ id: 'ace-rename-all-trades', name: 'Rename/Move All Trades to Match Pattern', callback: () => this.renameAllTrades() });
+		this.addCommand({ id: 'ace-migrate-trades', name: 'Migrate Trade Notes to Current Schema (folder)', callback: () => this.migrateTrades() });
+		this.addCommand({ id: 'ace-tax-report', name: 'Tax Year Realized Gains Report', callback: () => this.taxReport() });
+		this.addCommand({ id: 'ace-export-trades', name: 'Export Trades (CSV/JSON)', callback: () => this.exportTrades() });
+		this.addCommand({ id: 'ace-import-csv', name: 'Import Trade History CSV', callback: () => this.importTradeHistory() });
+		this.addCommand({ id: 'ace-import-funding', name: 'Import Funding History CSV', callback: () => this.importFundingHistory() });
+		this.addCommand({ id: 'ace-refresh-marks', name: 'Refresh Marks for Open Trades', callback: () => this.refreshMarks() });
 
 		this.registerEvent(
 			this.app.workspace.on('active-leaf-change', () => {
 				this.syncTradePane();
 			})
 		);
+		this.registerEvent(
+			this.app.workspace.on('file-open', (file) => this.warnOnSchema(file))
+		);
+		const refreshDashboards = debounce(() => {
+			this.app.workspace.getLeavesOfType(VIEW_TYPE_DASHBOARD).forEach(leaf => {
+				if (leaf.view instanceof DashboardView) leaf.view.refresh();
+			});
+			this.app.workspace.getLeavesOfType(VIEW_TYPE_CALENDAR).forEach(leaf => {
+				if (leaf.view instanceof CalendarView) leaf.view.refresh();
+			});
+		}, 1000, true);
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file) => {
+				if (file.path === this.settings.accountsNotePath) this.realizedByAccount = null;
+				if (isTradeFile(this.app, file, this.settings.tradesRoot)) { this.realizedByAccount = null; refreshDashboards(); }
+			})
+		);
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file) => {
+				if (this.settings.lintOnModify && isTradeFile(this.app, file, this.settings.tradesRoot)) this.lintFile(file);
+			})
+		);
+		const dropCandleIndex = () => { this.candleIndex = null; };
+		this.registerEvent(this.app.vault.on('create', dropCandleIndex));
+		this.registerEvent(this.app.vault.on('delete', dropCandleIndex));
+		this.registerEvent(this.app.vault.on('rename', dropCandleIndex));
+		this.registerEvent(
+			this.app.vault.on('delete', async (file) => {
+				this.lintWarned.delete(file.path);
+				(await this.getProblemsView(false))?.removeFile(file.path);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('rename', async (file, oldPath) => {
+				this.lintWarned.delete(oldPath);
+				const view = await this.getProblemsView(false);
+				view?.removeFile(oldPath);
+				if (!(file instanceof TFile) || !isTradeFile(this.app, file, this.settings.tradesRoot)) return;
+				if (view || this.settings.lintOnModify) this.lintFile(file);
+			})
+		);
 		this.registerEvent(
 			this.app.metadataCache.on('changed', (file) => {
 				const leaf = this.getTradePaneLeaf(false);
@@ -302,12 +783,18 @@ export default class AceTradingPlugin extends Plugin {
 				if (view instanceof TradePaneView && view.getFile()?.path === file.path) {
 					this.lastTradeFile = file;
 					view.setFile(file);
+				} else if (this.app.workspace.getActiveFile()?.path === file.path) {
+					// Trades are recognized by frontmatter, which a freshly created note may only now have.
+					this.syncTradePane();
 				}
 			})
 		);
 		this.registerEvent(
 			this.app.vault.on('modify', (file) => {
 				if (!(file instanceof TFile)) return;
+				if (file.path === this.settings.markPricePath) { this.loadMarkPrices(false); return; }
+				if (file.path === this.settings.fxTablePath) { this.loadFxTable(); return; }
+				if (this.candles.has(file.path)) { this.candles.delete(file.path); return; }
 				const leaf = this.getTradePaneLeaf(false);
 				if (!leaf) return;
 				const view = leaf.view;
@@ -318,13 +805,18 @@ export default class AceTradingPlugin extends Plugin {
 			})
 		);
 
-		this.app.workspace.onLayoutReady(() => {
+		this.app.workspace.onLayoutReady(async () => {
+			await this.loadMarkPrices(false);
+			await this.loadFxTable();
 			this.activateTradePane();
 			this.syncTradePane();
 		});
 	}
 	onunload() {
 		this.app.workspace.getLeavesOfType(VIEW_TYPE_TRADE).forEach(leaf => this.app.workspace.detachLeavesOfType(VIEW_TYPE_TRADE));
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_DASHBOARD);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_CALENDAR);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_PROBLEMS);
 	}
 	async saveSettings() { await this.saveData(this.settings); }
 
@@ -345,6 +837,110 @@ export default class AceTradingPlugin extends Plugin {
 		this.app.workspace.revealLeaf(leaf);
 	}
 
+	private async activateDashboard(): Promise<void> {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_DASHBOARD)[0];
+		const leaf = existing ?? this.app.workspace.getLeaf('tab');
+		if (!existing) await leaf.setViewState({ type: VIEW_TYPE_DASHBOARD, active: true });
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	private async activateCalendar(): Promise<void> {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_CALENDAR)[0];
+		const leaf = existing ?? this.app.workspace.getLeaf('tab');
+		if (!existing) await leaf.setViewState({ type: VIEW_TYPE_CALENDAR, active: true });
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	private async getProblemsView(create: boolean): Promise<ProblemsView | null> {
+		let leaf: WorkspaceLeaf | null = this.app.workspace.getLeavesOfType(VIEW_TYPE_PROBLEMS)[0] ?? null;
+		if (!leaf && create) {
+			leaf = this.app.workspace.getRightLeaf(false);
+			if (!leaf) return null;
+			await leaf.setViewState({ type: VIEW_TYPE_PROBLEMS, active: true });
+		}
+		if (!leaf) return null;
+		if (create) this.app.workspace.revealLeaf(leaf);
+		return leaf.view instanceof ProblemsView ? leaf.view : null;
+	}
+
+	async lintAllTrades(): Promise<void> {
+		const results = new Map<string, LintProblem[]>();
+		let total = 0;
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!isTradeFile(this.app, file, this.settings.tradesRoot)) continue;
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!fm) continue;
+			const problems = lintTrade(fm);
+			total += problems.length;
+			results.set(file.path, problems);
+		}
+		(await this.getProblemsView(true))?.setResults(results);
+		new Notice(total ? `Found ${total} problem${total === 1 ? '' : 's'} in ${Array.from(results.values()).filter(p => p.length).length} trades` : 'No trade problems found');
+	}
+
+	private async lintFile(file: TFile): Promise<void> {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const problems = fm ? lintTrade(fm) : [];
+		const view = await this.getProblemsView(false);
+		if (view) { view.updateFile(file.path, problems); return; }
+		// Our own metrics write fires another change, so the same errors are only announced once.
+		const errors = problems.filter(p => p.severity === 'error').map(p => `${p.code}:${p.fillIndex ?? ''}`).join('|');
+		if (!errors) { this.lintWarned.delete(file.path); return; }
+		if (this.lintWarned.get(file.path) === errors) return;
+		this.lintWarned.set(file.path, errors);
+		new Notice(`${file.basename}: ${problems.length} integrity problem${problems.length === 1 ? '' : 's'} — run "Check Trade Integrity"`);
+	}
+
+	private async applyLintFix(path: string, problem: LintProblem): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile) || !problem.fix) return;
+		try {
+			let remaining: LintProblem[] = [];
+			await this.app.fileManager.processFrontMatter(file, (fw: any) => { problem.fix?.apply(fw); remaining = lintTrade(fw); });
+			await this.persistMetrics(file);
+			(await this.getProblemsView(false))?.updateFile(path, remaining);
+			this.refreshTradePane();
+		} catch (e) { console.error(e); new Notice(`Failed to apply fix to ${file.basename}`); }
+	}
+
+	collectTrades(): TradeRecord[] {
+		const records: TradeRecord[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!isTradeFile(this.app, file, this.settings.tradesRoot)) continue;
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+			if (!fm || !Array.isArray(fm.fills) || !fm.fills.length) continue;
+			records.push({ path: file.path, name: file.basename, fm, metrics: computeMetrics(fm, this.metricsOptions(fm)) });
+		}
+		return records;
+	}
+
+	// Charts in notes read the persisted metrics block; notes never recomputed are left out.
+	persistedTrades(): TradeRecord[] {
+		const records: TradeRecord[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!isTradeFile(this.app, file, this.settings.tradesRoot)) continue;
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+			if (!fm?.metrics || typeof fm.metrics !== 'object') continue;
+			records.push({ path: file.path, name: file.basename, fm, metrics: fm.metrics });
+		}
+		return records;
+	}
+
+	private renderChartBlock(source: string, el: HTMLElement): void {
+		const query = parseBlockQuery(source);
+		const records = filterTrades(this.persistedTrades(), filterFromQuery(query));
+		const open = (path: string) => this.openTradePath(path);
+		const type = (query.type || 'equity').toLowerCase();
+		if (type === 'equity') renderEquityCurve(el, equitySeries(records), open);
+		else if (type === 'r' || type === 'r-distribution') renderRHistogram(el, rHistogram(records, Number(query.bin) > 0 ? Number(query.bin) : undefined), open);
+		else el.createSpan({ text: `Unknown chart type "${query.type}" (use equity or r)` });
+	}
+
+	private async openTradePath(path: string): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) await this.app.workspace.getLeaf(false).openFile(file);
+	}
+
 	private syncTradePane(force = false): void {
 		const leaf = this.getTradePaneLeaf(false);
 		if (!leaf) return;
@@ -353,7 +949,7 @@ export default class AceTradingPlugin extends Plugin {
 
 		const activeFile = this.app.workspace.getActiveFile();
 		const current = view.getFile();
-		if (activeFile && isTradeFile(activeFile, this.settings.tradesRoot)) {
+		if (activeFile && isTradeFile(this.app, activeFile, this.settings.tradesRoot)) {
 			this.lastTradeFile = activeFile;
 			if (force) {
 				if (!current || current.path !== activeFile.path) view.setFile(activeFile);
@@ -364,7 +960,7 @@ export default class AceTradingPlugin extends Plugin {
 			return;
 		}
 
-		if (activeFile && !isTradeFile(activeFile, this.settings.tradesRoot)) {
+		if (activeFile && !isTradeFile(this.app, activeFile, this.settings.tradesRoot)) {
 			this.lastTradeFile = null;
 			if (current) view.setFile(null);
 			return;
@@ -388,20 +984,29 @@ export default class AceTradingPlugin extends Plugin {
 	}
 
 	async newTrade() {
+		const setups = this.getSetups();
+		const picked = setups.length ? await pickFromModal(new SetupPicker(this.app, setups)) : NO_SETUP;
+		if (!picked) return;
+		const setup = picked.name ? picked : null;
 		const d = new Date();
 		const systemTimeZone = getSystemTimeZone();
 		const defaults = { lite: formatDateTimeInZone(d, systemTimeZone) };
+		const accountNames = this.getAccounts().map(a => a.name);
 		const fields: InputField[] = [
 			{ id: 'pair', label: 'Pair/Base (e.g., HYPE/USDT)' },
 			{ id: 'action', label: 'Action (long/short)', default: 'long' },
 			{ id: 'amount', label: 'Amount (base units)' },
-			{ id: 'allocation', label: 'Allocation (quote spent, positive)' },
-			{ id: 'tags', label: 'Tags, comma or space separated' },
-			{ id: 'account', label: 'Account/Where' },
-			{ id: 'initial_stop', label: 'Initial stop (price, optional)' },
+			{ id: 'allocation', label: 'Allocation (quote notional, positive)' },
+			{ id: 'leverage', label: 'Leverage (blank for spot)' },
+			{ id: 'margin_mode', label: 'Margin mode', type: 'dropdown', options: MARGIN_MODES, default: 'isolated' },
+			{ id: 'tags', label: 'Tags, comma or space separated', default: setup?.tags.join(' ') },
+			accountNames.length
+				? { id: 'account', label: 'Account', type: 'dropdown', options: ['', ...accountNames], default: accountNames.find(n => sameAccount(n, setup?.account)) ?? '' }
+				: { id: 'account', label: 'Account/Where', default: setup?.account },
+			{ id: 'initial_stop', label: setup?.stopDistance ? `Initial stop (blank = ${setup.stopDistance} from entry)` : 'Initial stop (price, optional)' },
 			{ id: 'timestamp', label: 'Timestamp', default: defaults.lite, type: 'datetime', defaultTimezone: systemTimeZone }
 		];
-		new InputModal(this.app, 'New Trade', fields, async (vals) => {
+		new InputModal(this.app, setup ? `New Trade: ${setup.name}` : 'New Trade', fields, async (vals) => {
 			try {
 				const pairInput = vals.pair?.trim(); if (!pairInput) return;
 				const { base: coinSym, quote: quoteSym } = parsePair(pairInput);
@@ -410,60 +1015,182 @@ export default class AceTradingPlugin extends Plugin {
 				if (!Number.isFinite(amount) || amount <= 0) return new Notice('Amount must be > 0');
 				if (!Number.isFinite(allocation) || allocation <= 0) return new Notice('Allocation must be > 0');
 				const account = (vals.account || '').trim();
-				const initialStop = parseNum(vals.initial_stop);
+				const leverage = vals.leverage?.trim() ? parseNum(vals.leverage) : NaN;
+				if (vals.leverage?.trim() && (!Number.isFinite(leverage) || leverage <= 0)) return new Notice('Leverage must be > 0');
 				const tags: string[] = (vals.tags || '')
 					.split(/[\s,]+/)
 					.map(tag => tag.replace(/^#/, '').trim())
 					.filter(Boolean);
 				const tradeDate = toUtcDateFromInput(vals.timestamp || '', new Date(), vals['timestamp_tz'])!;
-				const yyyy = tradeDate.getUTCFullYear(), mm = pad(tradeDate.getUTCMonth() + 1), dd = pad(tradeDate.getUTCDate()), hh = pad(tradeDate.getUTCHours()), mi = pad(tradeDate.getUTCMinutes());
-				const pairFlat = `${coinSym}${quoteSym}`;
-				const fileBasePattern = this.settings.filenamePattern
-					.replace('${YYYY}', String(yyyy))
-					.replace('${MM}', String(mm))
-					.replace('${DD}', String(dd))
-					.replace('${HH}', String(hh))
-					.replace('${mm}', String(mi))
-					.replace('${PAIR}', pairFlat)
-					.replace('${ACTION}', action);
-				const id = fileBasePattern;
-				const yearFolder = `${this.settings.tradesRoot}/${yyyy}`;
-				await ensureFolder(this.app, this.settings.tradesRoot);
-				await ensureFolder(this.app, yearFolder);
-				let filePath = `${yearFolder}/${fileBasePattern}.md`;
-				let suffix = 1; while (this.app.vault.getAbstractFileByPath(filePath)) { filePath = `${yearFolder}/${fileBasePattern}-${suffix++}.md`; }
 				const price = allocation / amount;
+				const initialStop = vals.initial_stop?.trim() ? parseNum(vals.initial_stop) : setupStop(setup, price, dir) ?? NaN;
 				const firstFill: Fill = buildFill({ dir, side: 'in', amount, price, when: tradeDate });
-				const tsIso = toIsoUtc(tradeDate);
-				const frontmatter: TradeFrontmatter = {
-					id,
-					schema_version: 2,
-					timestamp: tsIso,
-					pair: `${coinSym}/${quoteSym}`,
-					action,
-					lesson: '',
-					tags,
+				const file = await this.createTradeNote({
+					base: coinSym,
 					quote: quoteSym,
+					action,
+					when: tradeDate,
 					fills: [firstFill],
-				};
-				if (account) frontmatter.account = account;
-				if (Number.isFinite(initialStop)) frontmatter.initial_stop = initialStop;
-
-				let body = '';
-				try {
-					body = await this.app.vault.adapter.read(this.settings.bodyTemplatePath);
-				} catch {
-					new Notice(`Couldn't find trade template at ${this.settings.bodyTemplatePath}`, 0);
-				}
-				const content = `---\n${stringifyYaml(frontmatter)}---\n\n${body}`;
-				const file = await this.app.vault.create(filePath, content);
-				await this.persistMetrics(file);
+					tags,
+					account,
+					initialStop: Number.isFinite(initialStop) ? initialStop : undefined,
+					setup: setup ?? undefined,
+					leverage: Number.isFinite(leverage) ? leverage : undefined,
+					marginMode: vals.margin_mode as MarginMode,
+				});
 				await this.app.workspace.getLeaf(true).openFile(file);
-				new Notice(`Trade created: ${file.basename}`);
+				new Notice(`Trade created: ${file.basename}${Number.isFinite(leverage) ? ` (margin ${round(allocation / leverage, 8)} ${quoteSym})` : ''}`);
 			} catch (e) { console.error(e); new Notice('Failed to create trade'); }
 		}).open();
 	}
 
+	newSizedTrade() {
+		new SizingModal(this.app, {
+			accounts: this.getAccounts().map(a => ({ name: a.name, equity: this.accountEquity(a, Date.now()), riskPct: a.riskPct })),
+			setups: this.getSetups(),
+			defaultRiskPct: this.settings.defaultRiskPct,
+			onSubmit: async (trade) => {
+				try {
+					const dir = trade.size.action === 'short' ? -1 : 1;
+					const firstFill = buildFill({ dir, side: 'in', amount: trade.size.amount, price: trade.entry, when: trade.when });
+					const file = await this.createTradeNote({
+						base: trade.base,
+						quote: trade.quote,
+						action: trade.size.action,
+						when: trade.when,
+						fills: [firstFill],
+						tags: trade.tags,
+						account: trade.account,
+						initialStop: trade.stop,
+						setup: trade.setup,
+						leverage: trade.leverage,
+						marginMode: trade.marginMode,
+					});
+					await this.app.workspace.getLeaf(true).openFile(file);
+					new Notice(`Trade created: ${file.basename} (1R = ${trade.size.riskQuote} ${trade.quote})`);
+				} catch (e) { console.error(e); new Notice('Failed to create trade'); }
+			},
+		}).open();
+	}
+
+	// `own` is the note being renamed; its current path doesn't count as taken.
+	private tradeNotePath(vars: TradePathVars, own?: TFile) {
+		return resolveTradePath({
+			root: this.settings.tradesRoot,
+			folderPattern: this.settings.folderPattern,
+			filenamePattern: this.settings.filenamePattern,
+			vars,
+			exists: (path) => path !== own?.path && !!this.app.vault.getAbstractFileByPath(path),
+		});
+	}
+
+	async renameTrade() {
+		const file = await pickTrade(this.app, this.settings.tradesRoot); if (!file) return;
+		const target = this.patternPathFor(file);
+		if (!target) { new Notice(`${file.basename} needs a pair and a valid timestamp to be named.`); return; }
+		if (target.path === file.path) { new Notice(`${file.basename} already matches the pattern.`); return; }
+		new ConfirmModal(this.app, `Move ${file.path} to ${target.path}?`, async () => {
+			try {
+				await this.moveTrade(file, target);
+				new Notice(`Moved to ${target.path}`);
+			} catch (e) { console.error(e); new Notice(`Failed to move ${file.basename}`); }
+		}).open();
+	}
+
+	async renameAllTrades() {
+		const moves = this.app.vault.getMarkdownFiles()
+			.filter(f => isTradeFile(this.app, f, this.settings.tradesRoot))
+			.map(file => ({ file, target: this.patternPathFor(file) }))
+			.filter(m => m.target && m.target.path !== m.file.path);
+		if (!moves.length) { new Notice('All trade notes already match the patterns.'); return; }
+		new ConfirmModal(this.app, `Move ${moves.length} trade note${moves.length === 1 ? '' : 's'} to match the folder and filename patterns?`, async () => {
+			let moved = 0, failed = 0;
+			for (const { file } of moves) {
+				try {
+					// Recomputed per note: earlier moves may have taken a name this one wanted.
+					const target = this.patternPathFor(file);
+					if (target && target.path !== file.path) { await this.moveTrade(file, target); moved++; }
+				} catch (e) { console.error(e); failed++; }
+			}
+			new Notice(`Moved ${moved} trade note${moved === 1 ? '' : 's'}${failed ? `, ${failed} failed` : ''}`);
+		}).open();
+	}
+
+	private patternPathFor(file: TFile): TradeNotePath | null {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+		const when = new Date(String(fm?.timestamp ?? ''));
+		const pair = tradePair(fm);
+		if (!fm || !pair.base || isNaN(when.getTime())) return null;
+		return this.tradeNotePath({ when, base: pair.base, quote: pair.quote, action: String(fm.action ?? ''), account: fm.account, setup: fm.setup }, file);
+	}
+
+	// renameFile keeps links to the note pointing at it; the id follows the new file name, suffix included, as it does for new notes.
+	private async moveTrade(file: TFile, target: TradeNotePath) {
+		if (target.folder) await ensureFolder(this.app, target.folder);
+		await this.app.fileManager.renameFile(file, target.path);
+		await this.app.fileManager.processFrontMatter(file, (fw: any) => { fw.id = target.id; });
+	}
+
+	// Shared by New Trade and imports: names the note from the folder and filename patterns, injects frontmatter above the body template.
+	private async createTradeNote(input: NewTradeInput): Promise<TFile> {
+		const { base: coinSym, quote: quoteSym, action, when: tradeDate } = input;
+		const { id, folder, path: filePath } = this.tradeNotePath({ when: tradeDate, base: coinSym, quote: quoteSym, action, account: input.account, setup: input.setup?.name });
+		if (folder) await ensureFolder(this.app, folder);
+		const tsIso = toIsoUtc(tradeDate);
+		const frontmatter: TradeFrontmatter = {
+			id,
+			schema_version: CURRENT_SCHEMA_VERSION,
+			timestamp: tsIso,
+			pair: `${coinSym}/${quoteSym}`,
+			action,
+			lesson: '',
+			tags: input.tags ?? [],
+			quote: quoteSym,
+			fills: input.fills,
+		};
+		if (input.account) frontmatter.account = input.account;
+		if (input.setup) frontmatter.setup = input.setup.name;
+		if (input.initialStop != null && Number.isFinite(input.initialStop)) frontmatter.initial_stop = input.initialStop;
+		if (input.leverage != null && input.leverage > 0) {
+			frontmatter.leverage = input.leverage;
+			frontmatter.margin_mode = input.marginMode ?? 'isolated';
+		}
+		if (input.closedAt) frontmatter.closed_at = toIsoUtc(input.closedAt);
+		if (input.flippedFrom) {
+			frontmatter.flipped_from = this.app.fileManager.generateMarkdownLink(input.flippedFrom, filePath);
+			reconcileClosedAt(frontmatter);
+		}
+
+		// The setup's template wins over the account's, which wins over the default one.
+		const templatePath = input.setup?.template || findAccount(this.getAccounts(), input.account)?.template || this.settings.bodyTemplatePath;
+		let body = '';
+		try {
+			body = await this.app.vault.adapter.read(templatePath);
+		} catch {
+			new Notice(`Couldn't find trade template at ${templatePath}`, 0);
+		}
+		if (body.includes('${')) {
+			const previous = this.previousTradeFile(frontmatter.pair, tradeDate.getTime());
+			body = fillTemplate(body, bodyTemplateValues({
+				fm: frontmatter,
+				timeZone: this.settings.templateTimeZone || getSystemTimeZone(),
+				previousTrade: previous ? this.app.fileManager.generateMarkdownLink(previous, filePath) : '',
+			}));
+		}
+		const checklist = input.setup ? checklistMarkdown(input.setup) : '';
+		const content = `---\n${stringifyYaml(frontmatter)}---\n\n${checklist}${body}`;
+		const file = await this.app.vault.create(filePath, content);
+		await this.persistMetrics(file);
+		return file;
+	}
+
+	private previousTradeFile(pair: string, before: number): TFile | null {
+		const trades = this.app.vault.getMarkdownFiles()
+			.filter(f => isTradeFile(this.app, f, this.settings.tradesRoot))
+			.map(file => ({ file, ...(this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter>) }));
+		return previousTradeOnPair(trades, pair, before)?.file ?? null;
+	}
+
 	async addFill() {
 		const file = await pickOpenTrade(this.app, this.settings.tradesRoot);
 		if (!file) return;
@@ -475,6 +1202,68 @@ export default class AceTradingPlugin extends Plugin {
 		this.openCloseTradeModal(file);
 	}
 
+	async splitFlip() {
+		const file = await pickTrade(this.app, this.settings.tradesRoot); if (!file) return;
+		await this.splitPositionFlip(file);
+	}
+
+	// The excess past zero (and every later fill) becomes a linked trade in the opposite direction.
+	async splitPositionFlip(file: TFile): Promise<void> {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+		const split = fm ? splitAtFlip(fm) : null;
+		if (!fm || !split) { new Notice(`${file.basename} doesn't cross zero.`); return; }
+		let created: TFile | null = null, updated = false;
+		try {
+			const pair = tradePair(fm);
+			const action: Action = tradeDirection(fm) > 0 ? 'short' : 'long';
+			const opened = split.moved[0];
+			const expected = (fm.fills ?? []).length;
+			const newNote = await this.createTradeNote({
+				base: pair.base,
+				quote: pair.quote,
+				action,
+				when: new Date(opened.t),
+				fills: split.moved,
+				tags: Array.isArray(fm.tags) ? fm.tags : [],
+				account: fm.account,
+				leverage: tradeLeverage(fm) ?? undefined,
+				marginMode: marginMode(fm),
+				flippedFrom: file,
+			});
+			created = newNote;
+			await this.app.fileManager.processFrontMatter(file, (fw: any) => {
+				if (!Array.isArray(fw.fills) || fw.fills.length !== expected) throw new Error('Fills changed on disk; reopen the trade and try again');
+				fw.fills = split.kept;
+				fw.flipped_to = this.app.fileManager.generateMarkdownLink(newNote, file.path);
+				reconcileClosedAt(fw);
+			});
+			updated = true;
+			await this.persistMetrics(file);
+			this.refreshTradePane();
+			new Notice(`Split ${split.flip.excess} units into ${newNote.basename} (${action})`);
+		} catch (e) {
+			console.error(e);
+			// The moved fills are still on the original, so the new note would count them twice.
+			if (created && !updated) await this.app.fileManager.trashFile(created).catch(console.error);
+			new Notice(`Failed to split ${file.basename}: ${(e as Error).message}`);
+		}
+	}
+
+	async moveStop() {
+		const file = await pickOpenTrade(this.app, this.settings.tradesRoot); if (!file) return;
+		this.openMoveStopModal(file);
+	}
+
+	async addCarry() {
+		const file = await pickTrade(this.app, this.settings.tradesRoot); if (!file) return;
+		this.openCarryModal(file);
+	}
+
+	async editPlan() {
+		const file = await pickTrade(this.app, this.settings.tradesRoot); if (!file) return;
+		this.openPlanModal(file);
+	}
+
 	async recomputeOne() { const file = await pickTrade(this.app, this.settings.tradesRoot); if (!file) return; await this.recomputeTrade(file, true); }
 
 	async bulkRecompute() {
@@ -482,13 +1271,63 @@ export default class AceTradingPlugin extends Plugin {
 		const picker = new FolderPicker(this.app, root);
 		picker.onChoose = async (folder: TFolder) => {
 			const folderPath = folder?.path || def;
-			const files = this.app.vault.getMarkdownFiles().filter(f => f.path.startsWith(folderPath) && f.basename.startsWith('T-'));
-			let updated = 0, total = 0; for (const f of files) { total++; const fm = this.app.metadataCache.getFileCache(f)?.frontmatter as Partial<TradeFrontmatter> | undefined; if (fm?.schema_version !== 2 || !Array.isArray(fm?.fills) || !fm?.fills?.length) continue; await this.recomputeTrade(f, false); updated++; }
+			const files = this.app.vault.getMarkdownFiles().filter(f => f.path.startsWith(folderPath) && isTradeFile(this.app, f));
+			let updated = 0, total = 0, outdated = 0; for (const f of files) { total++; const fm = this.app.metadataCache.getFileCache(f)?.frontmatter as Partial<TradeFrontmatter> | undefined; if (!Array.isArray(fm?.fills) || !fm?.fills?.length) continue; if (schemaVersionOf(fm) !== CURRENT_SCHEMA_VERSION) { outdated++; continue; } await this.recomputeTrade(f, false); updated++; }
+			if (outdated) new Notice(`${outdated} note${outdated === 1 ? '' : 's'} skipped: not on schema v${CURRENT_SCHEMA_VERSION}; run Migrate Trade Notes first`);
 			new Notice(`Recomputed metrics: ${updated}/${total} in ${folderPath}`);
 		};
 		picker.open();
 	}
 
+	async migrateTrades() {
+		const root = this.settings.tradesRoot;
+		const picker = new FolderPicker(this.app, root);
+		picker.setPlaceholder('Select folder to migrate…');
+		const folder = await pickFromModal(picker);
+		if (!folder) return;
+		const files = this.app.vault.getMarkdownFiles().filter(f => f.path.startsWith(folder.path + '/') && isTradeFile(this.app, f));
+		const items: MigrationReportItem[] = [];
+		for (const f of files) {
+			const fm = this.app.metadataCache.getFileCache(f)?.frontmatter;
+			if (!fm) continue;
+			const from = schemaVersionOf(fm);
+			if (from === CURRENT_SCHEMA_VERSION) continue;
+			if (!canMigrate(from)) {
+				items.push({ path: f.path, from, to: CURRENT_SCHEMA_VERSION, changes: [], error: `Unknown schema_version ${fm.schema_version}` });
+				continue;
+			}
+			const draft = JSON.parse(JSON.stringify(fm));
+			items.push({ path: f.path, ...migrateFrontmatter(draft) });
+		}
+		if (!items.length) { new Notice(`All trades in ${folder.path} are on schema v${CURRENT_SCHEMA_VERSION}`); return; }
+		new MigrationReportModal(this.app, folder.path, items, async () => {
+			let migrated = 0;
+			for (const item of items) {
+				if (item.error) continue;
+				const file = this.app.vault.getAbstractFileByPath(item.path);
+				if (!(file instanceof TFile)) continue;
+				try {
+					await this.app.fileManager.processFrontMatter(file, (fw: any) => { migrateFrontmatter(fw); });
+					await this.persistMetrics(file);
+					migrated++;
+				} catch (e) { console.error(e); }
+			}
+			this.refreshTradePane();
+			new Notice(`Migrated ${migrated}/${items.filter(i => !i.error).length} trades to schema v${CURRENT_SCHEMA_VERSION}`);
+		}).open();
+	}
+
+	private warnOnSchema(file: TFile | null): void {
+		if (!file || !isTradeFile(this.app, file, this.settings.tradesRoot) || this.schemaWarned.has(file.path)) return;
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!fm) return;
+		const version = schemaVersionOf(fm);
+		if (version === CURRENT_SCHEMA_VERSION) return;
+		this.schemaWarned.add(file.path);
+		if (canMigrate(version)) new Notice(`${file.basename} uses trade schema v${version}; run "Migrate Trade Notes" to upgrade it.`);
+		else new Notice(`${file.basename} has schema_version ${fm.schema_version}, which this plugin doesn't understand. Metrics may be wrong.`, 0);
+	}
+
 	private openAddFillModal(file: TFile): void {
 		const page = this.app.metadataCache.getFileCache(file);
 		const fm = page?.frontmatter as Partial<TradeFrontmatter> | undefined;
@@ -498,6 +1337,7 @@ export default class AceTradingPlugin extends Plugin {
 		}
 		const action = String(fm?.action || 'long').toLowerCase() as Action;
 		const dir = action === 'short' ? -1 : 1;
+		const pair = tradePair(fm);
 		const systemTimeZone = getSystemTimeZone();
 		const defaultTime = formatDateTimeInZone(new Date(), systemTimeZone);
 		const fields: InputField[] = [
@@ -505,16 +1345,12 @@ export default class AceTradingPlugin extends Plugin {
 			{ id: 'amount', label: 'Amount (base units)' },
 			{ id: 'quote', label: 'Quote delta (spent<0>/received>0)' },
 			{ id: 'time', label: 'Time', default: defaultTime, type: 'datetime', defaultTimezone: systemTimeZone },
+			...feeFields(pair.quote),
 			{ id: 'note', label: 'Note (optional)' }
 		];
 		new InputModal(this.app, 'Add Fill', fields, async (vals) => {
 			try {
-				const side = (vals.side || 'in').toLowerCase() as Side;
-				const amt = parseNum(vals.amount); if (!Number.isFinite(amt) || amt <= 0) return new Notice('Amount must be > 0');
-				const q = parseNum(vals.quote); if (!Number.isFinite(q) || q === 0) return new Notice('Quote must be non-zero');
-				const exp = expectedQuoteSign(dir, side); const quote = Math.abs(q) * exp; if (Math.sign(q) !== exp) new Notice(`Adjusted quote: ${q} -> ${quote}`);
-				const when = toUtcDateFromInput(vals.time || '', new Date(), vals['time_tz'])!;
-				const fill = buildFill({ dir, side, amount: amt, quote, when, note: vals.note || '' });
+				const fill = fillFromInput(vals, dir, pair); if (typeof fill === 'string') return new Notice(fill);
 				await this.app.fileManager.processFrontMatter(file, (frontmatter: any) => { if (!Array.isArray(frontmatter.fills)) frontmatter.fills = []; frontmatter.fills.push(fill); });
 				await this.persistMetrics(file);
 				this.refreshTradePane();
@@ -523,6 +1359,171 @@ export default class AceTradingPlugin extends Plugin {
 		}).open();
 	}
 
+	private openEditFillModal(file: TFile, index: number): void {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+		const original = Array.isArray(fm?.fills) ? fm?.fills[index] : undefined;
+		if (!original) { new Notice('Fill not found.'); return; }
+		const dir = tradeDirection(fm ?? {});
+		const pair = tradePair(fm);
+		const systemTimeZone = getSystemTimeZone();
+		const t = Date.parse(original.t);
+		const fields: InputField[] = [
+			{ id: 'side', label: 'Side (in/out)', default: original.side },
+			{ id: 'amount', label: 'Amount (base units)', default: String(Math.abs(Number(original.base) || 0)) },
+			{ id: 'quote', label: 'Quote delta (spent<0>/received>0)', default: String(original.quote ?? '') },
+			{ id: 'time', label: 'Time', default: isNaN(t) ? String(original.t ?? '') : formatDateTimeInZone(new Date(t), systemTimeZone), type: 'datetime', defaultTimezone: systemTimeZone },
+			...feeFields(pair.quote, original),
+			{ id: 'note', label: 'Note (optional)', default: original.note ?? '' }
+		];
+		new InputModal(this.app, 'Edit Fill', fields, async (vals) => {
+			try {
+				const fill = fillFromInput(vals, dir, pair, original.txs); if (typeof fill === 'string') return new Notice(fill);
+				await this.updateFills(file, index, original, fills => { fills[index] = fill; });
+				new Notice(`Updated fill in ${file.basename}`);
+			} catch (e) { console.error(e); new Notice('Failed to edit fill'); }
+		}).open();
+	}
+
+	private confirmDeleteFill(file: TFile, index: number): void {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+		const original = Array.isArray(fm?.fills) ? fm?.fills[index] : undefined;
+		if (!original) { new Notice('Fill not found.'); return; }
+		new ConfirmModal(this.app, `Delete the ${original.side} fill of ${Math.abs(Number(original.base))} at ${original.t}?`, async () => {
+			try {
+				await this.updateFills(file, index, original, fills => { fills.splice(index, 1); });
+				new Notice(`Deleted fill from ${file.basename}`);
+			} catch (e) { console.error(e); new Notice('Failed to delete fill'); }
+		}).open();
+	}
+
+	private async duplicateFill(file: TFile, index: number): Promise<void> {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+		const original = Array.isArray(fm?.fills) ? fm?.fills[index] : undefined;
+		if (!original) { new Notice('Fill not found.'); return; }
+		try {
+			await this.updateFills(file, index, original, fills => {
+				const copy: Fill = { ...fills[index] };
+				delete copy.txs; // tx ids identify the original execution
+				fills.splice(index + 1, 0, copy);
+			});
+			new Notice(`Duplicated fill in ${file.basename}`);
+		} catch (e) { console.error(e); new Notice('Failed to duplicate fill'); }
+	}
+
+	// Order matters for FIFO/LIFO lots and for which fill a plan or flip is measured from.
+	private async moveFill(file: TFile, index: number, by: -1 | 1): Promise<void> {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+		const fills = Array.isArray(fm?.fills) ? fm?.fills ?? [] : [];
+		const original = fills[index];
+		if (!original || !fills[index + by]) return;
+		try {
+			await this.updateFills(file, index, original, list => {
+				[list[index], list[index + by]] = [list[index + by], list[index]];
+			});
+		} catch (e) { console.error(e); new Notice('Failed to move fill'); }
+	}
+
+	// Applies a fill-list change only if the fill at index is still the one the user acted on,
+	// then lets closed_at follow the position and recomputes metrics.
+	private async updateFills(file: TFile, index: number, expected: Fill, change: (fills: Fill[]) => void): Promise<void> {
+		await this.app.fileManager.processFrontMatter(file, (fw: any) => {
+			const fills: Fill[] = Array.isArray(fw.fills) ? fw.fills : [];
+			const current = fills[index];
+			if (!current || current.t !== expected.t || current.base !== expected.base || current.quote !== expected.quote) throw new Error('Fills changed on disk; reopen the trade and try again');
+			change(fills);
+			fw.fills = fills;
+			reconcileClosedAt(fw);
+		});
+		await this.persistMetrics(file);
+		this.refreshTradePane();
+	}
+
+	private openMoveStopModal(file: TFile): void {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+		if (fm?.closed_at) { new Notice('Trade is already closed.'); return; }
+		const stop = fm ? currentStop(fm) : null;
+		const systemTimeZone = getSystemTimeZone();
+		const fields: InputField[] = [
+			{ id: 'price', label: `Stop price${stop != null ? ` (now ${stop})` : ''}` },
+			{ id: 'time', label: 'Time', default: formatDateTimeInZone(new Date(), systemTimeZone), type: 'datetime', defaultTimezone: systemTimeZone },
+			{ id: 'note', label: 'Note (e.g., breakeven, trail)' },
+		];
+		new InputModal(this.app, 'Move Stop', fields, async (vals) => {
+			try {
+				const price = parseNum(vals.price); if (!Number.isFinite(price) || price <= 0) return new Notice('Stop must be > 0');
+				const when = toUtcDateFromInput(vals.time || '', new Date(), vals['time_tz'])!;
+				const move: StopMove = { t: toIsoUtc(when), price };
+				if (vals.note) move.note = vals.note;
+				await this.app.fileManager.processFrontMatter(file, (fw: any) => {
+					// The first stop on a trade without one becomes the initial stop that R is measured against.
+					if (fw.initial_stop == null) { fw.initial_stop = price; return; }
+					if (!Array.isArray(fw.stop_history)) fw.stop_history = [];
+					fw.stop_history.push(move);
+				});
+				await this.persistMetrics(file);
+				this.refreshTradePane();
+				new Notice(`Stop moved to ${price} on ${file.basename}`);
+			} catch (e) { console.error(e); new Notice('Failed to move stop'); }
+		}).open();
+	}
+
+	private openCarryModal(file: TFile): void {
+		const systemTimeZone = getSystemTimeZone();
+		const fields: InputField[] = [
+			{ id: 'kind', label: 'Kind', type: 'dropdown', options: CARRY_KINDS, default: 'funding' },
+			{ id: 'amount', label: 'Amount in quote (received > 0, paid < 0)' },
+			{ id: 'time', label: 'Time', default: formatDateTimeInZone(new Date(), systemTimeZone), type: 'datetime', defaultTimezone: systemTimeZone },
+			{ id: 'note', label: 'Note' },
+		];
+		new InputModal(this.app, 'Add Funding', fields, async (vals) => {
+			try {
+				const amount = parseNum(vals.amount); if (!Number.isFinite(amount) || amount === 0) return new Notice('Amount must be a non-zero number');
+				const when = toUtcDateFromInput(vals.time || '', new Date(), vals['time_tz'])!;
+				const entry: CarryEntry = { t: toIsoUtc(when), amount, kind: (vals.kind || 'funding') as CarryKind };
+				if (vals.note) entry.note = vals.note;
+				await this.app.fileManager.processFrontMatter(file, (fw: any) => {
+					if (!Array.isArray(fw.carry)) fw.carry = [];
+					fw.carry.push(entry);
+				});
+				await this.persistMetrics(file);
+				this.refreshTradePane();
+				new Notice(`Added ${entry.kind} ${amount} to ${file.basename}`);
+			} catch (e) { console.error(e); new Notice('Failed to add funding'); }
+		}).open();
+	}
+
+	private openPlanModal(file: TFile): void {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+		const plan = normalizePlan(fm?.plan);
+		const fields: InputField[] = [
+			{ id: 'entry', label: 'Entry (price or low-high zone)', default: plan?.low != null ? (plan.low === plan.high ? String(plan.low) : `${plan.low}-${plan.high}`) : '' },
+			{ id: 'stop', label: 'Stop (price)', default: plan?.stop != null ? String(plan.stop) : (fm?.initial_stop != null ? String(fm.initial_stop) : '') },
+			{ id: 'targets', label: 'Targets (price@size%, comma separated)', default: (plan?.targets ?? []).map(t => `${t.price}@${round(t.size * 100, 4)}%`).join(', ') },
+		];
+		new InputModal(this.app, 'Trade Plan', fields, async (vals) => {
+			try {
+				let next: TradePlan = {};
+				try {
+					const entry = parseEntryZone(vals.entry || '');
+					if (entry != null) next.entry = entry;
+					const targets = parseTargets(vals.targets || '');
+					if (targets.length) next.targets = targets;
+				} catch (e) { return new Notice((e as Error).message); }
+				const stop = parseNum(vals.stop);
+				if (vals.stop?.trim() && (!Number.isFinite(stop) || stop <= 0)) return new Notice('Stop must be > 0');
+				if (Number.isFinite(stop) && stop > 0) next = { ...next, stop };
+				await this.app.fileManager.processFrontMatter(file, (fw: any) => {
+					if (!Object.keys(next).length) { delete fw.plan; return; }
+					fw.plan = next;
+					if (fw.initial_stop == null && next.stop != null) fw.initial_stop = next.stop;
+				});
+				await this.persistMetrics(file);
+				this.refreshTradePane();
+				new Notice(Object.keys(next).length ? `Saved plan for ${file.basename}` : `Removed plan from ${file.basename}`);
+			} catch (e) { console.error(e); new Notice('Failed to save plan'); }
+		}).open();
+	}
+
 	private openCloseTradeModal(file: TFile): void {
 		const page = this.app.metadataCache.getFileCache(file); const fm = page?.frontmatter as Partial<TradeFrontmatter> | undefined;
 		const fills = Array.isArray(fm?.fills) ? fm!.fills! : [];
@@ -530,6 +1531,7 @@ export default class AceTradingPlugin extends Plugin {
 		if (Math.abs(pos) < 1e-12) { new Notice('Already flat.'); return; }
 
 		const action = String(fm?.action || 'long').toLowerCase() as Action; const dir = action === 'short' ? -1 : 1;
+		const pair = tradePair(fm);
 		const systemTimeZone = getSystemTimeZone();
 		const defaultExitTime = formatDateTimeInZone(new Date(), systemTimeZone);
 		const fields: InputField[] = [
@@ -537,20 +1539,22 @@ export default class AceTradingPlugin extends Plugin {
 			{ id: 'price', label: 'Exit price (quote/base, if mode=price)' },
 			{ id: 'quote', label: 'Exit quote delta (received>0/spent<0, if mode=quote)' },
 			{ id: 'time', label: 'Exit time', default: defaultExitTime, type: 'datetime', defaultTimezone: systemTimeZone },
+			...feeFields(pair.quote),
 			{ id: 'note', label: 'Note (optional)' }
 		];
 		new InputModal(this.app, 'Close Trade', fields, async (vals) => {
 			try {
 				const mode = (vals.mode || 'price').toLowerCase();
 				const when = toUtcDateFromInput(vals.time || '', new Date(), vals['time_tz'])!;
+				let fee; try { fee = parseFeeInput(vals, pair); } catch (e) { return new Notice((e as Error).message); }
 				if (mode === 'price') {
 					const p = parseNum(vals.price); if (!Number.isFinite(p) || p <= 0) return new Notice('Price must be > 0');
-					const fill = buildFill({ dir, side: 'out', amount: Math.abs(pos), price: p, when, note: vals.note || '' });
+					const fill = buildFill({ dir, side: 'out', amount: Math.abs(pos), price: p, when, note: vals.note || '', ...fee });
 					await this.app.fileManager.processFrontMatter(file, (fw: any) => { if (!Array.isArray(fw.fills)) fw.fills = []; fw.fills.push(fill); fw.closed_at = toIsoUtc(when); });
 				} else {
 					const q = parseNum(vals.quote); if (!Number.isFinite(q) || q === 0) return new Notice('Quote must be non-zero');
 					const exp = expectedQuoteSign(dir, 'out'); const adjusted = Math.abs(q) * exp; if (Math.sign(q) !== exp) new Notice(`Adjusted exit quote: ${q} -> ${adjusted}`);
-					const fill = buildFill({ dir, side: 'out', amount: Math.abs(pos), quote: adjusted, when, note: vals.note || '' });
+					const fill = buildFill({ dir, side: 'out', amount: Math.abs(pos), quote: adjusted, when, note: vals.note || '', ...fee });
 					await this.app.fileManager.processFrontMatter(file, (fw: any) => { if (!Array.isArray(fw.fills)) fw.fills = []; fw.fills.push(fill); fw.closed_at = toIsoUtc(when); });
 				}
 				await this.persistMetrics(file);
@@ -566,7 +1570,368 @@ export default class AceTradingPlugin extends Plugin {
 		this.refreshTradePane();
 	}
 
+	async importTradeHistory() {
+		const file = await pickFromModal(new CsvFilePicker(this.app));
+		if (!file) return;
+		const text = await this.app.vault.read(file);
+		const tradeFiles = this.app.vault.getMarkdownFiles().filter(f => isTradeFile(this.app, f, this.settings.tradesRoot));
+		const txsOf = (f: TFile) => {
+			const fills = this.app.metadataCache.getFileCache(f)?.frontmatter?.fills;
+			return (Array.isArray(fills) ? fills : []).flatMap((fill: Fill) => Array.isArray(fill?.txs) ? fill.txs.map(String) : []);
+		};
+		const openTrades: OpenTradeRef[] = tradeFiles
+			.filter(openTradesOnlyFilter(this.app))
+			.map(f => {
+				const fm = (this.app.metadataCache.getFileCache(f)?.frontmatter ?? {}) as Partial<TradeFrontmatter>;
+				const fills = Array.isArray(fm.fills) ? fm.fills : [];
+				const pair = tradePair(fm);
+				return {
+					path: f.path,
+					pair: `${pair.base}/${pair.quote}`,
+					account: String(fm.account ?? ''),
+					action: (String(fm.action || 'long').toLowerCase() === 'short' ? 'short' : 'long') as Action,
+					position: fills.reduce((acc, fill) => acc + (Number(fill?.base) || 0), 0),
+					txs: txsOf(f),
+				};
+			});
+		new ImportModal(this.app, {
+			fileName: file.name,
+			text,
+			mappings: [...IMPORT_PRESETS, ...this.settings.importMappings],
+			openTrades,
+			knownTxs: tradeFiles.flatMap(txsOf),
+			onConfirm: (plan) => this.applyImport(plan),
+		}).open();
+	}
+
+	private async applyImport(plan: ImportPlan) {
+		let appended = 0, created = 0, failed = 0;
+		const files = new Map<ImportPlanEntry, TFile>(); // for linking a flipped trade to the one it came from
+		for (const entry of plan.entries) {
+			try {
+				const target = entry.target;
+				if (target.kind === 'append') {
+					const file = this.app.vault.getAbstractFileByPath(target.path);
+					if (!(file instanceof TFile)) { failed++; continue; }
+					await this.app.fileManager.processFrontMatter(file, (fw: any) => {
+						if (!Array.isArray(fw.fills)) fw.fills = [];
+						fw.fills.push(...entry.fills);
+						if (entry.closedAt) fw.closed_at = toIsoUtc(entry.closedAt);
+					});
+					await this.persistMetrics(file);
+					files.set(entry, file);
+					appended++;
+				} else {
+					const { base, quote } = parsePair(target.pair);
+					const flippedFrom = entry.flippedFrom && files.get(entry.flippedFrom);
+					const file = await this.createTradeNote({
+						base,
+						quote,
+						action: target.action,
+						when: new Date(entry.fills[0].t),
+						fills: entry.fills,
+						account: target.account,
+						closedAt: entry.closedAt,
+						flippedFrom,
+					});
+					files.set(entry, file);
+					if (flippedFrom) await this.app.fileManager.processFrontMatter(flippedFrom, (fw: any) => { fw.flipped_to = this.app.fileManager.generateMarkdownLink(file, flippedFrom.path); });
+					created++;
+				}
+			} catch (e) { console.error(e); failed++; }
+		}
+		this.refreshTradePane();
+		new Notice(`Import done: ${appended} trades updated, ${created} created${failed ? `, ${failed} failed` : ''}`);
+	}
+
+	async importFundingHistory() {
+		const file = await pickFromModal(new CsvFilePicker(this.app));
+		if (!file) return;
+		const text = await this.app.vault.read(file);
+		const trades: CarryTradeRef[] = [];
+		for (const f of this.app.vault.getMarkdownFiles().filter(f => isTradeFile(this.app, f, this.settings.tradesRoot))) {
+			const fm = (this.app.metadataCache.getFileCache(f)?.frontmatter ?? {}) as Partial<TradeFrontmatter>;
+			const times = (Array.isArray(fm.fills) ? fm.fills : []).map(fill => Date.parse(String(fill?.t ?? ''))).filter(t => !isNaN(t));
+			if (!times.length) continue;
+			const closedAt = fm.closed_at ? Date.parse(String(fm.closed_at)) : NaN;
+			const pair = tradePair(fm);
+			trades.push({
+				path: f.path,
+				pair: `${pair.base}/${pair.quote}`,
+				account: String(fm.account ?? ''),
+				from: Math.min(...times),
+				to: isNaN(closedAt) ? null : closedAt,
+				carry: carryEntries(fm),
+			});
+		}
+		new FundingImportModal(this.app, {
+			fileName: file.name,
+			text,
+			mappings: FUNDING_PRESETS,
+			trades,
+			onConfirm: (plan) => this.applyCarryImport(plan),
+		}).open();
+	}
+
+	private async applyCarryImport(plan: CarryPlan) {
+		let updated = 0, failed = 0;
+		for (const entry of plan.entries) {
+			try {
+				const file = this.app.vault.getAbstractFileByPath(entry.path);
+				if (!(file instanceof TFile)) { failed++; continue; }
+				await this.app.fileManager.processFrontMatter(file, (fw: any) => {
+					if (!Array.isArray(fw.carry)) fw.carry = [];
+					fw.carry.push(...entry.carry);
+				});
+				await this.persistMetrics(file);
+				updated++;
+			} catch (e) { console.error(e); failed++; }
+		}
+		this.refreshTradePane();
+		new Notice(`Funding import done: ${updated} trades updated${failed ? `, ${failed} failed` : ''}`);
+	}
+
+	exportTrades() {
+		const records = this.collectTrades();
+		new ExportModal(this.app, {
+			initial: this.settings.exportOptions,
+			count: (opts) => selectForExport(records, opts).length,
+			onExport: async (opts) => {
+				const path = `${opts.path.replace(/\.(csv|json)$/i, '')}.${opts.format}`;
+				try {
+					const content = buildExport(selectForExport(records, opts), opts);
+					const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+					if (folder) await ensureFolder(this.app, folder);
+					await this.writeVaultFile(path, content);
+					this.settings.exportOptions = opts;
+					await this.saveSettings();
+					new Notice(`Exported ${selectForExport(records, opts).length} trades to ${path}`);
+				} catch (e) { console.error(e); new Notice(`Failed to export to ${path}`); }
+			},
+		}).open();
+	}
+
+	taxReport() {
+		const last = this.settings.taxReport;
+		const fields: InputField[] = [
+			{ id: 'year', label: 'Tax year (the year it starts in)', default: String(new Date().getUTCFullYear() - 1) },
+			{ id: 'method', label: 'Lot matching', type: 'dropdown', options: TAX_LOT_METHODS, default: last.method },
+			{ id: 'longTermDays', label: 'Long term after (days held)', default: String(last.longTermDays) },
+			{ id: 'yearStart', label: 'Tax year starts (MM-DD)', default: last.yearStart },
+			{ id: 'folder', label: 'Save report to folder', default: last.folder },
+		];
+		new InputModal(this.app, 'Tax Year Realized Gains', fields, async (vals) => {
+			const year = Number(vals.year), longTermDays = parseNum(vals.longTermDays);
+			if (!Number.isInteger(year) || year < 1970) return new Notice('Enter a tax year like 2024');
+			if (!Number.isFinite(longTermDays) || longTermDays < 0) return new Notice('Long-term days must be 0 or more');
+			if (!/^\d{1,2}-\d{1,2}$/.test(vals.yearStart || '')) return new Notice('Year start must look like 04-06');
+			const rules: TaxRules = { method: (vals.method || 'fifo') as TaxLotMethod, longTermDays, yearStart: vals.yearStart };
+			const folder = (vals.folder || '').trim().replace(/\/+$/, '');
+			try {
+				const currency = this.settings.reportingCurrency;
+				const report = buildTaxReport(this.collectTrades(), year, rules,
+					currency ? { currency, convert: (asset, t) => fxRate(this.fxTable, asset, currency, t) } : undefined);
+				const base = `${folder ? folder + '/' : ''}Realized Gains ${report.label}`;
+				if (folder) await ensureFolder(this.app, folder);
+				await this.writeVaultFile(`${base}.csv`, taxReportCsv(report));
+				const note = await this.writeVaultFile(`${base}.md`, taxReportMarkdown(report, `${base}.csv`));
+				this.settings.taxReport = { ...rules, folder };
+				await this.saveSettings();
+				await this.app.workspace.getLeaf(true).openFile(note);
+				new Notice(`${report.disposals.length} disposals in ${report.label}${report.warnings.length ? `, ${report.warnings.length} warnings` : ''}`);
+			} catch (e) { console.error(e); new Notice('Failed to build tax report'); }
+		}).open();
+	}
+
+	private async writeVaultFile(path: string, content: string): Promise<TFile> {
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) { await this.app.vault.modify(existing, content); return existing; }
+		return this.app.vault.create(path, content);
+	}
+
+	async refreshMarks() {
+		if (!await this.loadMarkPrices(true)) return;
+		const files = this.app.vault.getMarkdownFiles()
+			.filter(f => isTradeFile(this.app, f, this.settings.tradesRoot))
+			.filter(openTradesOnlyFilter(this.app));
+		let marked = 0;
+		for (const f of files) {
+			await this.persistMetrics(f);
+			const fm = this.app.metadataCache.getFileCache(f)?.frontmatter as Partial<TradeFrontmatter> | undefined;
+			if (fm?.mark != null || this.metricsOptions(fm).markPrice != null) marked++;
+		}
+		this.refreshTradePane();
+		new Notice(`Refreshed marks: ${marked}/${files.length} open trades priced`);
+	}
+
+	async loadMarkPrices(notify: boolean): Promise<boolean> {
+		const path = this.settings.markPricePath;
+		if (!path) {
+			this.markPrices = {};
+			if (notify) new Notice('Set a mark price file in settings first.');
+			return false;
+		}
+		try {
+			this.markPrices = parsePriceSnapshot(await this.app.vault.adapter.read(path), path);
+			return true;
+		} catch (e) {
+			console.error(e);
+			this.markPrices = {};
+			if (notify) new Notice(`Couldn't read mark prices from ${path}`);
+			return false;
+		}
+	}
+
+	async loadFxTable() {
+		const path = this.settings.fxTablePath;
+		this.fxTable = {};
+		if (!path) return;
+		try {
+			this.fxTable = parseFxTable(await this.app.vault.adapter.read(path), path);
+		} catch (e) {
+			console.error(e);
+			new Notice(`Couldn't read FX rates from ${path}`);
+		}
+	}
+
+	private candleFiles(fm?: Partial<TradeFrontmatter>): TFile[] {
+		const folder = this.settings.candlesFolder;
+		const pair = tradePair(fm);
+		if (!folder || !pair.base) return [];
+		// Listed once rather than per trade, so recomputing every note doesn't scan the vault each time.
+		if (this.candleIndex?.folder !== folder) {
+			this.candleIndex = { folder, files: this.app.vault.getFiles().filter(f => f.extension === 'csv' && f.path.startsWith(folder + '/')) };
+		}
+		return this.candleIndex.files.filter(f => isCandleFileFor(f.basename, pair));
+	}
+
+	// Reads the pair's candle files into the cache so metricsOptions can stay synchronous.
+	private async loadCandles(fm?: Partial<TradeFrontmatter>): Promise<void> {
+		for (const file of this.candleFiles(fm)) {
+			if (this.candles.has(file.path)) continue;
+			try {
+				this.candles.set(file.path, parseCandles(await this.app.vault.cachedRead(file)));
+			} catch (e) {
+				console.error(e);
+				new Notice(`Couldn't read candles from ${file.path}`);
+			}
+		}
+	}
+
+	private tradePriceRange(fm?: Partial<TradeFrontmatter>) {
+		const fills = Array.isArray(fm?.fills) ? fm?.fills ?? [] : [];
+		const from = Math.min(...fills.map(f => Date.parse(String(f?.t ?? ''))).filter(t => !isNaN(t)));
+		if (!Number.isFinite(from)) return null;
+		const closedAt = Date.parse(String(fm?.closed_at ?? ''));
+		const sets = this.candleFiles(fm).map(f => this.candles.get(f.path)).filter((c): c is Candle[] => !!c);
+		// Candles are only read when a note is written; until then the saved excursions stand in for them.
+		return sets.length ? bestPriceRange(sets, from, isNaN(closedAt) ? null : closedAt) : savedPriceRange(fm);
+	}
+
+	metricsOptions(fm?: Partial<TradeFrontmatter>): MetricsOptions {
+		const account = findAccount(this.getAccounts(), fm?.account);
+		const openedAt = Date.parse(String(fm?.timestamp ?? ''));
+		const currency = this.settings.reportingCurrency;
+		return {
+			costBasis: this.settings.costBasis,
+			markPrice: fm ? lookupPrice(this.markPrices, tradePair(fm)) : null,
+			accountEquity: account && !isNaN(openedAt) ? this.accountEquity(account, openedAt) : null,
+			priceRange: this.tradePriceRange(fm),
+			maintenanceMarginPct: this.settings.maintenanceMarginPct,
+			fx: currency && fm?.closed_at ? { currency, rate: fxRate(this.fxTable, tradePair(fm).quote, currency, fm.closed_at) } : null,
+		};
+	}
+
+	getAccounts(): Account[] {
+		const fromSettings: Account[] = this.settings.accounts.filter(a => a.name).map(a => ({
+			name: a.name,
+			baseCurrency: a.baseCurrency,
+			startingBalance: a.startingBalance ?? 0,
+			startedAt: a.startedAt,
+			riskPct: a.riskPct,
+			ledger: a.ledger,
+			template: a.template,
+			source: 'settings',
+		}));
+		const note = this.settings.accountsNotePath ? this.app.vault.getAbstractFileByPath(this.settings.accountsNotePath) : null;
+		const fromNote = note instanceof TFile ? parseAccountsNote(this.app.metadataCache.getFileCache(note)?.frontmatter) : [];
+		return mergeAccounts(fromSettings, fromNote);
+	}
+
+	getSetups(): Setup[] {
+		const fromSettings: Setup[] = this.settings.setups.filter(s => s.name).map(s => ({ ...s, source: 'settings' }));
+		const folder = this.settings.setupsFolder.replace(/\/+$/, '');
+		const fromNotes = folder
+			? this.app.vault.getMarkdownFiles()
+				.filter(f => f.path.startsWith(folder + '/'))
+				.map(f => parseSetupNote(this.app.metadataCache.getFileCache(f)?.frontmatter, f.basename))
+			: [];
+		return mergeSetups(fromSettings, fromNotes);
+	}
+
+	// Realized PnL comes from the persisted metrics of closed trades, grouped by account.
+	private realizedEvents(account: Account): RealizedEvent[] {
+		if (!this.realizedByAccount) {
+			const byAccount = new Map<string, RealizedEvent[]>();
+			for (const record of this.persistedTrades()) {
+				const t = Date.parse(String(record.fm.closed_at ?? ''));
+				const pnl = Number(record.metrics.realized_pnl);
+				if (isNaN(t) || !Number.isFinite(pnl) || !record.fm.account) continue;
+				const key = String(record.fm.account).trim().toLowerCase();
+				byAccount.set(key, [...(byAccount.get(key) ?? []), { t, pnl }]);
+			}
+			this.realizedByAccount = byAccount;
+		}
+		return this.realizedByAccount.get(account.name.trim().toLowerCase()) ?? [];
+	}
+
+	accountEquity(account: Account, at: number): number {
+		return accountEquityAt(account, this.realizedEvents(account), at);
+	}
+
+	recordLedgerEntry() {
+		const accounts = this.getAccounts();
+		if (!accounts.length) { new Notice('Add an account in settings or the accounts note first.'); return; }
+		const systemTimeZone = getSystemTimeZone();
+		const fields: InputField[] = [
+			{ id: 'account', label: 'Account', type: 'dropdown', options: accounts.map(a => a.name) },
+			{ id: 'amount', label: 'Amount (deposit>0/withdrawal<0)' },
+			{ id: 'date', label: 'Date', default: formatDateTimeInZone(new Date(), systemTimeZone), type: 'datetime', defaultTimezone: systemTimeZone },
+			{ id: 'note', label: 'Note (optional)' },
+		];
+		new InputModal(this.app, 'Record Deposit/Withdrawal', fields, async (vals) => {
+			try {
+				const account = findAccount(accounts, vals.account);
+				if (!account) return new Notice('Unknown account');
+				const amount = parseNum(vals.amount); if (!Number.isFinite(amount) || amount === 0) return new Notice('Amount must be non-zero');
+				const entry: LedgerEntry = { date: toIsoUtc(toUtcDateFromInput(vals.date || '', new Date(), vals['date_tz'])!), amount };
+				if (vals.note) entry.note = vals.note;
+				if (account.source === 'settings') {
+					this.settings.accounts.find(a => sameAccount(a.name, account.name))?.ledger.push(entry);
+					await this.saveSettings();
+				} else {
+					const note = this.app.vault.getAbstractFileByPath(this.settings.accountsNotePath);
+					if (!(note instanceof TFile)) return new Notice('Accounts note not found');
+					await this.app.fileManager.processFrontMatter(note, (fw: any) => {
+						const target = (Array.isArray(fw.accounts) ? fw.accounts : []).find((a: any) => sameAccount(a?.name, account.name));
+						if (!target) throw new Error(`Account ${account.name} not in accounts note`);
+						if (!Array.isArray(target.ledger)) target.ledger = [];
+						target.ledger.push(entry);
+					});
+				}
+				this.realizedByAccount = null;
+				new Notice(`${amount > 0 ? 'Deposit' : 'Withdrawal'} of ${Math.abs(amount)} recorded for ${account.name}`);
+			} catch (e) { console.error(e); new Notice('Failed to record ledger entry'); }
+		}).open();
+	}
+
 	private async persistMetrics(file: TFile) {
-		await this.app.fileManager.processFrontMatter(file, (fw: any) => { const m = computeMetrics(fw); fw.metrics = m; });
+		await this.loadCandles(this.app.metadataCache.getFileCache(file)?.frontmatter);
+		let flipped = false;
+		await this.app.fileManager.processFrontMatter(file, (fw: any) => { const m = computeMetrics(fw, this.metricsOptions(fw)); fw.metrics = m; flipped = !!findPositionFlip(fw); });
+		if (!flipped) { this.flipWarned.delete(file.path); return; }
+		if (this.flipWarned.has(file.path)) return;
+		this.flipWarned.add(file.path);
+		new Notice(`${file.basename}: a fill takes the position through zero, so its metrics are wrong. Run "Split Position Flip" to move the excess into a new trade.`, 0);
 	}
 }
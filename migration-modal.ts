@@ -0,0 +1,62 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export interface MigrationReportItem {
+	path: string;
+	from: number;
+	to: number;
+	changes: string[];
+	error?: string;
+}
+
+// Dry-run report: lists what each note would change; Apply is the only step that writes.
+export class MigrationReportModal extends Modal {
+	private readonly folder: string;
+	private readonly items: MigrationReportItem[];
+	private readonly onApply: () => Promise<void>;
+
+	constructor(app: App, folder: string, items: MigrationReportItem[], onApply: () => Promise<void>) {
+		super(app);
+		this.folder = folder;
+		this.items = items;
+		this.onApply = onApply;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h3', { text: `Migrate trades in ${this.folder}` });
+
+		const pending = this.items.filter(i => !i.error);
+		const failed = this.items.filter(i => i.error);
+		contentEl.createEl('p', { text: `${pending.length} note${pending.length === 1 ? '' : 's'} to migrate, ${failed.length} not migratable.` });
+
+		const list = contentEl.createDiv({ cls: 'ace-import-preview' });
+		for (const item of this.items) {
+			const block = list.createDiv({ cls: 'ace-migration-item' });
+			block.createEl('strong', { text: item.path });
+			if (item.error) {
+				block.createDiv({ cls: 'ace-import-errors', text: item.error });
+				continue;
+			}
+			block.createSpan({ text: `  v${item.from} → v${item.to}` });
+			const ul = block.createEl('ul');
+			(item.changes.length ? item.changes : ['schema_version only']).forEach(c => ul.createEl('li', { text: c }));
+		}
+
+		new Setting(contentEl)
+			.addButton(b => b.setButtonText('Close').onClick(() => this.close()))
+			.addButton(b => b
+				.setCta()
+				.setButtonText('Apply')
+				.setDisabled(!pending.length)
+				.onClick(async () => {
+					b.setDisabled(true);
+					await this.onApply();
+					this.close();
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
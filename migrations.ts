@@ -0,0 +1,111 @@
+import { buildFill, parseNum, toUtcDateFromInput } from './helpers';
+import type { Side } from './schema';
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// Frontmatter as read from the note; migrations mutate it in place and describe what they changed.
+export type RawFrontmatter = Record<string, any>;
+
+export interface Migration {
+    from: number;
+    to: number;
+    description: string;
+    migrate(fm: RawFrontmatter): string[];
+}
+
+const migrations = new Map<number, Migration>();
+
+export const registerMigration = (migration: Migration) => {
+    if (migration.to !== migration.from + 1) throw new Error(`Migration ${migration.from}→${migration.to} must step one version`);
+    migrations.set(migration.from, migration);
+};
+
+// Anything only the v1 layout wrote: legacy fields, a tag string, or fills without in/out sides and signed base.
+const hasV1Layout = (fm: RawFrontmatter) =>
+    (fm.direction != null && fm.action == null)
+    || (fm.stop != null && fm.initial_stop == null)
+    || typeof fm.tags === 'string'
+    || (Array.isArray(fm.fills) && fm.fills.some((f: RawFrontmatter) => (f?.side !== 'in' && f?.side !== 'out') || f?.base == null || f?.t == null));
+
+// Notes without schema_version are read by their layout: v1 when they have one, otherwise already v2,
+// so hand-written notes in the current shape aren't rebuilt and lose their exact times and quotes.
+export const schemaVersionOf = (fm: RawFrontmatter | undefined | null) => {
+    const v = Number(fm?.schema_version ?? (fm && hasV1Layout(fm) ? 1 : 2));
+    return Number.isInteger(v) && v > 0 ? v : NaN;
+};
+
+export const canMigrate = (from: number, to = CURRENT_SCHEMA_VERSION) => {
+    if (!Number.isFinite(from) || from > to) return false;
+    for (let v = from; v < to; v++) if (!migrations.has(v)) return false;
+    return true;
+};
+
+export interface MigrationResult {
+    from: number;
+    to: number;
+    changes: string[];
+}
+
+export const migrateFrontmatter = (fm: RawFrontmatter, to = CURRENT_SCHEMA_VERSION): MigrationResult => {
+    const from = schemaVersionOf(fm);
+    if (!canMigrate(from, to)) throw new Error(`No migration path from schema ${fm?.schema_version} to ${to}`);
+    const changes: string[] = [];
+    for (let v = from; v < to; v++) {
+        const step = migrations.get(v) as Migration;
+        changes.push(...step.migrate(fm).map(c => `${step.from}→${step.to}: ${c}`));
+        fm.schema_version = step.to;
+    }
+    return { from, to, changes };
+};
+
+// v1 notes stored unsigned amounts with buy/sell sides, 'stop' instead of 'initial_stop',
+// a 'direction' field instead of 'action' and tags as a single string.
+registerMigration({
+    from: 1,
+    to: 2,
+    description: 'Signed fills, initial_stop, action and tag list',
+    migrate(fm) {
+        const changes: string[] = [];
+        if (fm.action == null && fm.direction != null) {
+            fm.action = String(fm.direction).toLowerCase() === 'short' ? 'short' : 'long';
+            delete fm.direction;
+            changes.push(`direction → action (${fm.action})`);
+        }
+        if (fm.initial_stop == null && fm.stop != null) {
+            const stop = typeof fm.stop === 'number' ? fm.stop : parseNum(String(fm.stop));
+            if (Number.isFinite(stop)) fm.initial_stop = stop;
+            delete fm.stop;
+            changes.push('stop → initial_stop');
+        }
+        if (typeof fm.tags === 'string') {
+            fm.tags = fm.tags.split(/[\s,]+/).map((t: string) => t.replace(/^#/, '')).filter(Boolean);
+            changes.push('tags string → list');
+        }
+        if (fm.pair && !fm.quote) {
+            const parts = String(fm.pair).toUpperCase().split(/[/:-]/);
+            if (parts.length >= 2) { fm.quote = parts[1]; changes.push(`quote set to ${fm.quote}`); }
+        }
+        const dir = String(fm.action || 'long').toLowerCase() === 'short' ? -1 : 1;
+        if (Array.isArray(fm.fills)) {
+            let rewritten = 0;
+            fm.fills = fm.fills.map((f: RawFrontmatter) => {
+                const sideRaw = String(f?.side ?? f?.type ?? '').toLowerCase();
+                const side: Side = sideRaw === 'in' || sideRaw === 'out'
+                    ? sideRaw
+                    : (sideRaw === 'buy') === (dir === 1) ? 'in' : 'out';
+                const amount = Math.abs(Number(f?.base ?? f?.amount ?? f?.qty ?? 0));
+                const price = Number(f?.price);
+                const quote = f?.quote != null ? Math.abs(Number(f.quote)) * (side === 'in' ? -dir : dir) : null;
+                const rawTime = String(f?.t ?? f?.time ?? f?.date ?? '');
+                const when = toUtcDateFromInput(rawTime, null) ?? undefined;
+                const next = buildFill({ dir, side, amount, price: Number.isFinite(price) && price > 0 ? price : null, quote, when });
+                if (!when) next.t = rawTime; // keep unparseable times for the user to fix rather than inventing one
+                for (const key of ['note', 'txs', 'fee', 'fee_asset', 'fee_quote']) if (f?.[key] != null) (next as RawFrontmatter)[key] = f[key];
+                if (next.side !== f?.side || next.base !== f?.base || next.quote !== f?.quote || next.price !== f?.price || next.t !== f?.t) rewritten++;
+                return next;
+            });
+            if (rewritten) changes.push(`${rewritten} fill${rewritten === 1 ? '' : 's'} normalized to signed base/quote`);
+        }
+        return changes;
+    },
+});
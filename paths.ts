@@ -0,0 +1,69 @@
+import { pad } from './helpers';
+
+// What the folder and filename patterns can refer to; dates are taken in UTC.
+export interface TradePathVars {
+    when: Date;
+    base: string;
+    quote: string;
+    action: string;
+    account?: string;
+    setup?: string;
+}
+
+export const TRADE_PATH_TOKENS = ['YYYY', 'MM', 'DD', 'HH', 'mm', 'PAIR', 'BASE', 'QUOTE', 'ACTION', 'ACCOUNT', 'SETUP', 'SEQ'];
+
+// Characters Obsidian won't accept in a file name, plus the folder separator.
+const unsafe = (s: string) => s.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim();
+
+// Every occurrence of each token is replaced; unknown ${…} tokens are left as typed.
+export const fillPathPattern = (pattern: string, vars: TradePathVars, seq: number) => {
+    const d = vars.when;
+    const values: Record<string, string> = {
+        YYYY: String(d.getUTCFullYear()),
+        MM: pad(d.getUTCMonth() + 1),
+        DD: pad(d.getUTCDate()),
+        HH: pad(d.getUTCHours()),
+        mm: pad(d.getUTCMinutes()),
+        PAIR: `${vars.base}${vars.quote}`,
+        BASE: vars.base,
+        QUOTE: vars.quote,
+        ACTION: vars.action,
+        ACCOUNT: vars.account ?? '',
+        SETUP: vars.setup ?? '',
+        SEQ: String(seq).padStart(3, '0'),
+    };
+    return pattern.replace(/\$\{(\w+)\}/g, (token, name: string) => (name in values ? unsafe(values[name]) : token));
+};
+
+// Tokens left empty (no account, no setup) shouldn't leave stray separators or empty folders behind.
+const tidy = (segment: string) => segment.trim().replace(/^[-_ .]+|[-_ ]+$/g, '');
+
+export interface TradeNotePath {
+    id: string; // file name without .md, clash suffix included; goes into the frontmatter id
+    folder: string;
+    path: string;
+}
+
+// ${SEQ} counts up from 1 until the path is free; patterns without it get a -1, -2… suffix on a clash.
+// `exists` should report false for the note being renamed so it can keep its own path.
+export const resolveTradePath = (opts: { root: string; folderPattern: string; filenamePattern: string; vars: TradePathVars; exists: (path: string) => boolean }): TradeNotePath => {
+    const root = opts.root.replace(/\/+$/, '');
+    const hasSeq = /\$\{SEQ\}/.test(opts.folderPattern + opts.filenamePattern);
+    const build = (seq: number) => {
+        const folder = [root, ...fillPathPattern(opts.folderPattern, opts.vars, seq).split('/').map(tidy)].filter(Boolean).join('/');
+        const id = tidy(fillPathPattern(opts.filenamePattern, opts.vars, seq)) || 'trade';
+        return { id, folder };
+    };
+    if (hasSeq) {
+        for (let seq = 1; ; seq++) {
+            const { id, folder } = build(seq);
+            const path = `${folder ? `${folder}/` : ''}${id}.md`;
+            if (!opts.exists(path)) return { id, folder, path };
+        }
+    }
+    const { id, folder } = build(1);
+    const prefix = folder ? `${folder}/` : '';
+    let name = id;
+    for (let suffix = 1; opts.exists(`${prefix}${name}.md`); suffix++) name = `${id}-${suffix}`;
+    return { id: name, folder, path: `${prefix}${name}.md` };
+};
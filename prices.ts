@@ -0,0 +1,38 @@
+import { parseCsv, parseNum } from './helpers';
+
+export type PriceTable = Record<string, number>;
+
+const normalizeSymbol = (s: string) => s.toUpperCase().replace(/[\s/:_-]+/g, '');
+
+// Accepts JSON ({ "BTC/USDT": 64000 } or [{ symbol, price }]) or CSV with symbol,price columns.
+export const parsePriceSnapshot = (text: string, path = ''): PriceTable => {
+    const table: PriceTable = {};
+    const put = (symbol: unknown, price: unknown) => {
+        const p = typeof price === 'number' ? price : parseNum(String(price ?? ''));
+        if (symbol == null || !Number.isFinite(p) || p <= 0) return;
+        table[normalizeSymbol(String(symbol))] = p;
+    };
+    const trimmed = text.trim();
+    if (/\.json$/i.test(path) || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        const data = JSON.parse(trimmed || '{}');
+        if (Array.isArray(data)) data.forEach(row => put(row?.symbol ?? row?.pair, row?.price ?? row?.mark));
+        else Object.entries(data ?? {}).forEach(([symbol, price]) => put(symbol, price));
+        return table;
+    }
+    const rows = parseCsv(text);
+    if (!rows.length) return table;
+    const header = rows[0].map(h => h.trim().toLowerCase());
+    let symCol = header.findIndex(h => h === 'symbol' || h === 'pair');
+    let priceCol = header.findIndex(h => h === 'price' || h === 'mark');
+    const body = symCol >= 0 && priceCol >= 0 ? rows.slice(1) : rows;
+    if (symCol < 0 || priceCol < 0) { symCol = 0; priceCol = 1; }
+    body.forEach(row => put(row[symCol]?.trim(), row[priceCol]));
+    return table;
+};
+
+// Tries BASE/QUOTE, then BASE alone (a bare symbol is assumed to be priced in the trade's quote).
+export const lookupPrice = (table: PriceTable, pair: { base: string; quote: string }) => {
+    if (!pair.base) return null;
+    const price = table[normalizeSymbol(`${pair.base}${pair.quote}`)] ?? table[normalizeSymbol(pair.base)];
+    return price != null && Number.isFinite(price) ? price : null;
+};
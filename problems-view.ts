@@ -0,0 +1,94 @@
+import { ButtonComponent, ItemView, WorkspaceLeaf } from 'obsidian';
+import type { LintProblem } from './lint';
+
+export const VIEW_TYPE_PROBLEMS = 'ace-trade-problems';
+
+export interface ProblemsHost {
+	lintAll(): Promise<void>;
+	openTrade(path: string): void;
+	applyFix(path: string, problem: LintProblem): Promise<void>;
+}
+
+export class ProblemsView extends ItemView {
+	private readonly host: ProblemsHost;
+	private results = new Map<string, LintProblem[]>();
+	private bodyEl: HTMLElement | null = null;
+
+	constructor(leaf: WorkspaceLeaf, host: ProblemsHost) {
+		super(leaf);
+		this.host = host;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PROBLEMS;
+	}
+
+	getDisplayText(): string {
+		return 'Trade Problems';
+	}
+
+	getIcon(): string {
+		return 'alert-triangle';
+	}
+
+	async onOpen(): Promise<void> {
+		const container = this.containerEl;
+		container.empty();
+		container.addClass('ace-trade-pane');
+		this.bodyEl = container.createDiv({ cls: 'ace-trade-pane-body' });
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		/* no-op */
+	}
+
+	setResults(results: Map<string, LintProblem[]>): void {
+		this.results = new Map(Array.from(results).filter(([, problems]) => problems.length));
+		this.render();
+	}
+
+	updateFile(path: string, problems: LintProblem[]): void {
+		if (problems.length) this.results.set(path, problems);
+		else this.results.delete(path);
+		this.render();
+	}
+
+	removeFile(path: string): void {
+		if (this.results.delete(path)) this.render();
+	}
+
+	private render(): void {
+		const el = this.bodyEl;
+		if (!el) return;
+		el.empty();
+		const header = el.createDiv({ cls: 'ace-trade-pane-header' });
+		header.createEl('h2', { text: 'Trade Problems' });
+		new ButtonComponent(header).setButtonText('Check all trades').onClick(() => this.host.lintAll());
+
+		if (!this.results.size) {
+			el.createSpan({ text: 'No problems found.' });
+			return;
+		}
+		const paths = Array.from(this.results.keys()).sort();
+		for (const path of paths) {
+			const problems = this.results.get(path) ?? [];
+			const section = el.createDiv({ cls: 'ace-trade-pane-section' });
+			const title = section.createEl('a', { text: `${path.split('/').pop()?.replace(/\.md$/, '')} (${problems.length})`, cls: 'ace-problem-file' });
+			title.onclick = () => this.host.openTrade(path);
+			const list = section.createEl('ul', { cls: 'ace-problem-list' });
+			for (const problem of problems) {
+				const li = list.createEl('li', { cls: `ace-problem is-${problem.severity}` });
+				li.createSpan({ text: problem.message });
+				const fix = problem.fix;
+				if (fix) {
+					const btn = li.createEl('button', { text: fix.label, cls: 'ace-problem-fix' });
+					btn.onclick = async () => {
+						btn.disabled = true;
+						await this.host.applyFix(path, problem);
+					};
+				}
+			}
+		}
+	}
+}
@@ -1,5 +1,7 @@
 export type Action = 'long' | 'short';
 export type Side = 'in' | 'out';
+export type CostBasis = 'average' | 'fifo' | 'lifo';
+export type MarginMode = 'isolated' | 'cross';
 
 export interface Fill {
     side: Side;
@@ -9,6 +11,35 @@ export interface Fill {
     price: number;
     note?: string;
     txs?: string[];
+    fee?: number; // paid > 0, rebate < 0
+    fee_asset?: string; // quote, base, or a third token (e.g., BNB)
+    fee_quote?: number; // fee valued in quote; needed when fee_asset is a third token
+}
+
+export interface PlanTarget {
+    price: number;
+    size: number; // fraction of the position to take off here
+}
+
+export interface TradePlan {
+    entry?: number | [number, number]; // price or [low, high] zone
+    stop?: number;
+    targets?: PlanTarget[];
+}
+
+export interface StopMove {
+    t: string; // ISO UTC
+    price: number;
+    note?: string;
+}
+
+export type CarryKind = 'funding' | 'borrow' | 'interest';
+
+export interface CarryEntry {
+    t: string; // ISO UTC
+    amount: number; // in quote; received > 0, paid < 0
+    kind: CarryKind;
+    note?: string;
 }
 
 export interface Metrics {
@@ -16,8 +47,39 @@ export interface Metrics {
     position: number | null;
     avg_entry: number | null;
     avg_exit: number | null;
-    realized_pnl: number | null;
+    realized_pnl: number | null; // net of fees
+    gross_pnl: number | null;
+    net_pnl: number | null;
+    fees_total: number | null; // in quote
+    fees_unpriced?: boolean; // some fee could not be valued in quote
+    carry_total?: number | null; // sum of carry entries in quote; already part of net_pnl
     r_multiple: number | null;
+    cost_basis?: CostBasis;
+    mark_price?: number | null;
+    unrealized_pnl?: number | null;
+    open_r?: number | null;
+    initial_margin?: number | null; // entered notional / leverage
+    return_on_margin?: number | null; // net realized PnL as % of initial_margin
+    liquidation_price?: number | null; // estimate for the open position; cross uses account_equity as collateral
+    account_equity?: number | null; // account equity when the trade was opened
+    return_pct?: number | null; // net realized PnL as % of account_equity
+    reporting_currency?: string;
+    fx_rate?: number | null; // quote -> reporting currency at closed_at; null when missing
+    realized_pnl_reporting?: number | null; // realized_pnl converted at fx_rate
+    current_stop?: number | null; // latest stop_history price, else initial_stop
+    initial_risk?: number | null; // quote lost at initial_stop across all entered units
+    risk_remaining?: number | null; // quote still lost if the open position stops out now; < 0 is locked profit
+    locked_r?: number | null; // R of the whole trade if the open position stops out now
+    mae_price?: number | null; // worst move against avg_entry, per unit
+    mfe_price?: number | null; // best move in favour of avg_entry, per unit
+    mae_quote?: number | null; // per-unit excursion times entered units
+    mfe_quote?: number | null;
+    mae_r?: number | null; // 1 means price reached initial_stop
+    mfe_r?: number | null;
+    planned_rr?: number | null; // size-weighted target reward over planned risk
+    targets_hit?: boolean[]; // per plan.targets entry
+    plan_slippage?: number | null; // avg entry beyond the planned zone, per unit; > 0 is worse
+    plan_followed_pct?: number | null;
     win: boolean | null;
     last_fill_at?: string | null;
     computed_at?: string;
@@ -32,9 +94,20 @@ export interface TradeFrontmatter {
     lesson: string;
     tags: string[];
     account?: string;
+    setup?: string; // playbook setup name
     quote?: string;
     initial_stop?: number;
+    leverage?: number; // unset for fully funded spot positions
+    margin_mode?: MarginMode; // default isolated
+    maintenance_margin_pct?: number; // overrides the plugin setting
+    stop_history?: StopMove[]; // moves after entry; R stays measured against initial_stop
+    plan?: TradePlan;
+    cost_basis?: CostBasis; // overrides the plugin setting
+    mark?: number; // manual mark price; wins over the price file
     closed_at?: string;
+    flipped_from?: string; // [[link]] to the trade this one was split from at a position flip
+    flipped_to?: string; // [[link]] to the opposite-direction trade split off from this one
     fills?: Fill[];
+    carry?: CarryEntry[]; // funding, borrow and interest booked while the position was open
     metrics?: Metrics;
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { parseNum, round } from './helpers';
+
+// A named setup from the playbook: what New Trade prefills when it is picked.
+export interface Setup {
+    name: string;
+    description: string;
+    stopDistance: string; // '2%' of entry or an absolute price distance like '150'; empty for none
+    tags: string[];
+    account: string;
+    checklist: string[];
+    template?: string; // body template path used instead of the account's or the default one
+    source: 'settings' | 'note';
+}
+
+const list = (v: unknown) => (Array.isArray(v) ? v : typeof v === 'string' ? v.split(/[,;\n]/) : [])
+    .map(item => String(item ?? '').trim())
+    .filter(Boolean);
+
+export const parseStopDistance = (raw: string | undefined) => {
+    const s = String(raw ?? '').trim();
+    const value = parseNum(s.replace(/%$/, ''));
+    if (!s || !Number.isFinite(value) || value <= 0) return null;
+    return { value, pct: s.endsWith('%') };
+};
+
+// Stop on the losing side of the entry at the setup's distance; null when the setup has none.
+export const setupStop = (setup: Setup | null | undefined, entry: number, dir: number) => {
+    const distance = parseStopDistance(setup?.stopDistance);
+    if (!distance || !Number.isFinite(entry) || entry <= 0) return null;
+    const offset = distance.pct ? entry * distance.value / 100 : distance.value;
+    const stop = entry - dir * offset;
+    return stop > 0 ? round(stop) : null;
+};
+
+// One setup per note in the playbook folder: name (default the file name), description, stop_distance, tags, account, checklist, template.
+export const parseSetupNote = (fm: Record<string, any> | undefined, basename: string): Setup => ({
+    name: String(fm?.name ?? basename).trim(),
+    description: String(fm?.description ?? '').trim(),
+    stopDistance: fm?.stop_distance != null ? String(fm.stop_distance).trim() : '',
+    tags: list(fm?.tags).map(t => t.replace(/^#/, '')),
+    account: String(fm?.account ?? '').trim(),
+    checklist: list(fm?.checklist),
+    ...(fm?.template ? { template: String(fm.template).trim() } : {}),
+    source: 'note',
+});
+
+export const sameSetup = (a: string | undefined, b: string | undefined) => String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase();
+
+// Later sources override earlier ones with the same (case-insensitive) name.
+export const mergeSetups = (...lists: Setup[][]) => {
+    const byName = new Map<string, Setup>();
+    lists.flat().filter(s => s.name).forEach(s => byName.set(s.name.trim().toLowerCase(), s));
+    return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const findSetup = (setups: Setup[], name?: string) => (name ? setups.find(s => sameSetup(s.name, name)) ?? null : null);
+
+// Pre-trade checklist as Markdown tasks, placed above the body template.
+export const checklistMarkdown = (setup: Setup) => (setup.checklist.length
+    ? `## Checklist: ${setup.name}\n\n${setup.checklist.map(item => `- [ ] ${item}`).join('\n')}\n\n`
+    : '');
@@ -0,0 +1,179 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type { MarginMode } from './schema';
+import { Setup, findSetup, setupStop } from './setups';
+import { MARGIN_MODES, PositionSize, computePositionSize, formatDateTimeInZone, getSystemTimeZone, parseNum, parsePair, round, toUtcDateFromInput } from './helpers';
+
+export interface SizingAccount {
+	name: string;
+	equity: number | null;
+	riskPct: number | null;
+}
+
+export interface SizedTrade {
+	base: string;
+	quote: string;
+	size: PositionSize;
+	entry: number;
+	stop: number;
+	leverage?: number;
+	marginMode?: MarginMode;
+	setup?: Setup;
+	account: string;
+	tags: string[];
+	when: Date;
+}
+
+export interface SizingModalOptions {
+	accounts: SizingAccount[];
+	setups: Setup[];
+	defaultRiskPct: number;
+	onSubmit(trade: SizedTrade): Promise<void>;
+}
+
+// New Trade in sizing mode: amount and allocation follow from equity, risk % and the stop distance.
+export class SizingModal extends Modal {
+	private readonly opts: SizingModalOptions;
+	private readonly timeZone = getSystemTimeZone();
+	private vals: Record<string, string> = {};
+	private resultEl: HTMLElement | null = null;
+	private equityText: { setValue(v: string): unknown } | null = null;
+	private riskText: { setValue(v: string): unknown } | null = null;
+	private stopText: { setValue(v: string): unknown } | null = null;
+	private tagsText: { setValue(v: string): unknown } | null = null;
+	private accountDropdown: { setValue(v: string): unknown } | null = null;
+
+	constructor(app: App, opts: SizingModalOptions) {
+		super(app);
+		this.opts = opts;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h3', { text: 'New Trade (Risk Sizing)' });
+		this.vals = { risk: String(this.opts.defaultRiskPct), timestamp: formatDateTimeInZone(new Date(), this.timeZone) };
+
+		const text = (id: string, label: string, placeholder = '') => new Setting(contentEl).setName(label).addText(t => {
+			t.setPlaceholder(placeholder).setValue(this.vals[id] ?? '').onChange(v => { this.vals[id] = v; this.renderResult(); });
+			if (id === 'equity') this.equityText = t;
+			if (id === 'risk') this.riskText = t;
+			if (id === 'stop') this.stopText = t;
+			if (id === 'tags') this.tagsText = t;
+		});
+
+		text('pair', 'Pair/Base', 'HYPE/USDT');
+		if (this.opts.setups.length) {
+			new Setting(contentEl).setName('Setup').setDesc('The stop is placed at the setup\'s distance from entry, on the chosen side')
+				.addDropdown(d => {
+					d.addOption('', 'None');
+					this.opts.setups.forEach(s => d.addOption(s.name, s.name));
+					d.onChange(v => this.selectSetup(v));
+				})
+				.addDropdown(d => d.addOption('long', 'Long').addOption('short', 'Short').onChange(v => { this.vals.direction = v; this.selectSetup(this.vals.setup ?? ''); }));
+		}
+		new Setting(contentEl).setName('Account').addDropdown(d => {
+			d.addOption('', 'Manual equity');
+			this.opts.accounts.forEach(a => d.addOption(a.name, a.name));
+			d.onChange(v => this.selectAccount(v));
+			this.accountDropdown = d;
+		});
+		text('equity', 'Account equity (quote)');
+		text('risk', 'Risk % per trade');
+		text('entry', 'Entry price');
+		text('stop', 'Stop price');
+		text('leverage', 'Leverage', 'blank for spot');
+		new Setting(contentEl).setName('Margin mode').addDropdown(d => {
+			MARGIN_MODES.forEach(m => d.addOption(m, m));
+			d.setValue('isolated');
+			d.onChange(v => { this.vals.marginMode = v; });
+		});
+		text('tags', 'Tags, comma or space separated');
+		text('timestamp', `Timestamp (${this.timeZone})`);
+
+		this.resultEl = contentEl.createDiv({ cls: 'ace-sizing-result' });
+		this.renderResult();
+
+		new Setting(contentEl)
+			.addButton(b => b.setButtonText('Cancel').onClick(() => this.close()))
+			.addButton(b => b.setCta().setButtonText('Create').onClick(() => this.submit()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private selectAccount(name: string): void {
+		this.vals.account = name;
+		const account = this.opts.accounts.find(a => a.name === name);
+		if (account?.equity != null) { this.vals.equity = String(account.equity); this.equityText?.setValue(this.vals.equity); }
+		const risk = account?.riskPct ?? this.opts.defaultRiskPct;
+		this.vals.risk = String(risk);
+		this.riskText?.setValue(this.vals.risk);
+		this.renderResult();
+	}
+
+	// Prefills tags, account and (once the entry is known) the stop; fields stay editable afterwards.
+	private selectSetup(name: string): void {
+		const setup = findSetup(this.opts.setups, name);
+		this.vals.setup = setup?.name ?? '';
+		if (!setup) return;
+		if (setup.tags.length) { this.vals.tags = setup.tags.join(' '); this.tagsText?.setValue(this.vals.tags); }
+		const account = this.opts.accounts.find(a => a.name.toLowerCase() === setup.account.toLowerCase());
+		if (account) { this.accountDropdown?.setValue(account.name); this.selectAccount(account.name); }
+		const stop = setupStop(setup, parseNum(this.vals.entry), this.vals.direction === 'short' ? -1 : 1);
+		if (stop != null) { this.vals.stop = String(stop); this.stopText?.setValue(this.vals.stop); }
+		this.renderResult();
+	}
+
+	private size(): { size: PositionSize | null; entry: number; stop: number } {
+		const entry = parseNum(this.vals.entry), stop = parseNum(this.vals.stop);
+		const size = computePositionSize({ equity: parseNum(this.vals.equity), riskPct: parseNum(this.vals.risk), entry, stop });
+		return { size, entry, stop };
+	}
+
+	private leverage(): number | null {
+		const leverage = parseNum(this.vals.leverage);
+		return Number.isFinite(leverage) && leverage > 0 ? leverage : null;
+	}
+
+	private renderResult(): void {
+		const el = this.resultEl;
+		if (!el) return;
+		el.empty();
+		const { size } = this.size();
+		if (!size) {
+			el.setText('Enter equity, risk %, entry and stop to size the trade.');
+			return;
+		}
+		const quote = parsePair(this.vals.pair).quote || 'quote';
+		const tbody = el.createEl('table', { cls: 'ace-trade-metrics' }).createEl('tbody');
+		const rows: Array<[string, string]> = [
+			['Direction', size.action],
+			['Amount', `${size.amount}`],
+			['Allocation', `${size.allocation} ${quote}`],
+			['1R', `${size.riskQuote} ${quote}`],
+			['Risk per unit', `${size.riskPerUnit}`],
+		];
+		const leverage = this.leverage();
+		if (leverage != null) rows.splice(3, 0, ['Initial margin', `${round(size.allocation / leverage, 8)} ${quote}`]);
+		for (const [label, value] of rows) {
+			const tr = tbody.createEl('tr');
+			tr.createEl('th', { text: label });
+			tr.createEl('td', { text: value });
+		}
+	}
+
+	private async submit(): Promise<void> {
+		const { base, quote } = parsePair(this.vals.pair);
+		if (!base) { new Notice('Pair is required'); return; }
+		const { size, entry, stop } = this.size();
+		if (!size) { new Notice('Sizing needs equity, risk %, entry and stop (stop ≠ entry)'); return; }
+		const tags = (this.vals.tags || '').split(/[\s,]+/).map(tag => tag.replace(/^#/, '').trim()).filter(Boolean);
+		const when = toUtcDateFromInput(this.vals.timestamp, new Date(), this.timeZone) ?? new Date();
+		this.close();
+		const leverage = this.leverage() ?? undefined;
+		const marginMode = leverage != null ? (this.vals.marginMode as MarginMode) ?? 'isolated' : undefined;
+		const setup = findSetup(this.opts.setups, this.vals.setup) ?? undefined;
+		await this.opts.onSubmit({ base, quote, size, entry, stop, leverage, marginMode, setup, account: this.vals.account ?? '', tags, when });
+	}
+}
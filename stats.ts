@@ -0,0 +1,188 @@
+import { Metrics, TradeFrontmatter } from './schema';
+import { parsePair, round } from './helpers';
+
+export interface TradeRecord {
+    path: string;
+    name: string;
+    fm: Partial<TradeFrontmatter>;
+    metrics: Metrics;
+}
+
+export interface TradeFilter {
+    from?: string; // YYYY-MM-DD, inclusive, UTC
+    to?: string;
+    pair?: string;
+    account?: string;
+    setup?: string;
+    tags?: string[]; // all must match
+}
+
+// Each figure keeps the trades it was computed from so views can list them.
+export interface Stat {
+    value: number | null;
+    trades: TradeRecord[];
+}
+
+export interface JournalStats {
+    count: Stat;
+    open: Stat;
+    closed: Stat;
+    winRate: Stat;
+    avgWin: Stat;
+    avgLoss: Stat;
+    expectancy: Stat;
+    profitFactor: Stat;
+    avgR: Stat;
+    totalPnl: Stat;
+    maxDrawdown: Stat;
+    longestLosingStreak: Stat;
+    missingFx: Stat;
+    avgMaeR: Stat;
+    avgMfeR: Stat;
+    avgLeftR: Stat;
+    nearStop: Stat;
+}
+
+// A closed trade whose MAE reached this share of its initial risk came close to being stopped out.
+export const NEAR_STOP_R = 0.8;
+
+// Closed trades are dated by closed_at, open ones by their entry timestamp.
+export const tradeDate = (r: TradeRecord) => {
+    const t = Date.parse(String(r.fm.closed_at ?? r.fm.timestamp ?? ''));
+    return isNaN(t) ? null : t;
+};
+
+const normalizePair = (pair?: string) => {
+    const p = parsePair(pair);
+    return p.base ? `${p.base}/${p.quote}` : '';
+};
+
+export const filterTrades = (records: TradeRecord[], filter: TradeFilter) => {
+    const from = filter.from ? Date.parse(`${filter.from}T00:00:00Z`) : NaN;
+    const to = filter.to ? Date.parse(`${filter.to}T00:00:00Z`) + 86400000 : NaN;
+    const pair = normalizePair(filter.pair);
+    const account = (filter.account ?? '').trim().toLowerCase();
+    const setup = (filter.setup ?? '').trim().toLowerCase();
+    const tags = (filter.tags ?? []).map(t => t.replace(/^#/, '').toLowerCase()).filter(Boolean);
+    return records.filter(r => {
+        const t = tradeDate(r);
+        if (!isNaN(from) && (t == null || t < from)) return false;
+        if (!isNaN(to) && (t == null || t >= to)) return false;
+        if (pair && normalizePair(r.fm.pair) !== pair) return false;
+        if (account && String(r.fm.account ?? '').trim().toLowerCase() !== account) return false;
+        if (setup && String(r.fm.setup ?? '').trim().toLowerCase() !== setup) return false;
+        if (tags.length) {
+            const own = (Array.isArray(r.fm.tags) ? r.fm.tags : []).map(t => String(t).replace(/^#/, '').toLowerCase());
+            if (!tags.every(t => own.includes(t))) return false;
+        }
+        return true;
+    });
+};
+
+// Code-block queries are 'key: value' lines; blank lines and '#' comments are ignored.
+export const parseBlockQuery = (source: string) => {
+    const query: Record<string, string> = {};
+    for (const line of source.split(/\r?\n/)) {
+        const m = line.match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+        if (m && !line.trim().startsWith('#')) query[m[1].toLowerCase()] = m[2];
+    }
+    return query;
+};
+
+export const filterFromQuery = (query: Record<string, string>): TradeFilter => ({
+    from: query.from || undefined,
+    to: query.to || undefined,
+    pair: query.pair || undefined,
+    account: query.account || undefined,
+    setup: query.setup || undefined,
+    tags: query.tags ? query.tags.split(/[\s,]+/).filter(Boolean) : undefined,
+});
+
+// Realized PnL in the reporting currency once a trade was converted, otherwise in its own quote.
+export const reportedPnl = (r: TradeRecord) => (r.metrics.reporting_currency ? r.metrics.realized_pnl_reporting : r.metrics.realized_pnl) ?? null;
+
+// Converted trades without a rate are left out of the figures and listed instead.
+export const missingFx = (r: TradeRecord) => !!r.metrics.reporting_currency && r.metrics.realized_pnl != null && r.metrics.realized_pnl_reporting == null;
+
+export const closedInOrder = (records: TradeRecord[]) => records
+    .filter(r => r.metrics.status === 'closed' && reportedPnl(r) != null)
+    .sort((a, b) => (tradeDate(a) ?? 0) - (tradeDate(b) ?? 0));
+
+const sum = (rs: TradeRecord[], pick: (r: TradeRecord) => number) => rs.reduce((acc, r) => acc + pick(r), 0);
+const pnl = (r: TradeRecord) => Number(reportedPnl(r) ?? 0);
+
+export const aggregateTrades = (records: TradeRecord[]): JournalStats => {
+    const closed = closedInOrder(records);
+    const open = records.filter(r => r.metrics.status === 'open');
+    const unconverted = records.filter(r => r.metrics.status === 'closed' && missingFx(r));
+    const wins = closed.filter(r => pnl(r) > 0);
+    const losses = closed.filter(r => pnl(r) < 0);
+    const withR = closed.filter(r => r.metrics.r_multiple != null);
+    const grossWin = sum(wins, pnl), grossLoss = Math.abs(sum(losses, pnl));
+    const winRate = closed.length ? wins.length / closed.length : null;
+    const avgWin = wins.length ? grossWin / wins.length : null;
+    const avgLoss = losses.length ? -grossLoss / losses.length : null;
+
+    // Peak-to-trough on cumulative realized PnL; the trades are the ones inside the worst window.
+    let equity = 0, peak = 0, peakIdx = -1, maxDd = 0, ddFrom = 0, ddTo = -1;
+    closed.forEach((r, i) => {
+        equity += pnl(r);
+        if (equity > peak) { peak = equity; peakIdx = i; }
+        if (peak - equity > maxDd) { maxDd = peak - equity; ddFrom = peakIdx + 1; ddTo = i; }
+    });
+
+    const finite = (v: unknown) => v != null && Number.isFinite(Number(v));
+    const withMae = closed.filter(r => finite(r.metrics.mae_r));
+    const withMfe = closed.filter(r => finite(r.metrics.mfe_r));
+    const withLeft = withMfe.filter(r => finite(r.metrics.r_multiple));
+    // What the best price offered beyond the R actually banked.
+    const leftR = (r: TradeRecord) => Number(r.metrics.mfe_r) - Number(r.metrics.r_multiple);
+    const nearStop = withMae.filter(r => Number(r.metrics.mae_r) >= NEAR_STOP_R);
+    const avg = (rs: TradeRecord[], pick: (r: TradeRecord) => number) => (rs.length ? round(sum(rs, pick) / rs.length, 4) : null);
+
+    let streak: TradeRecord[] = [], longest: TradeRecord[] = [];
+    for (const r of closed) {
+        if (pnl(r) < 0) { streak = [...streak, r]; if (streak.length > longest.length) longest = streak; }
+        else streak = [];
+    }
+
+    return {
+        count: { value: records.length, trades: records },
+        open: { value: open.length, trades: open },
+        closed: { value: closed.length, trades: closed },
+        winRate: { value: round(winRate, 4), trades: closed },
+        avgWin: { value: round(avgWin), trades: wins },
+        avgLoss: { value: round(avgLoss), trades: losses },
+        expectancy: { value: closed.length ? round(sum(closed, pnl) / closed.length) : null, trades: closed },
+        profitFactor: { value: grossLoss ? round(grossWin / grossLoss, 4) : null, trades: closed },
+        avgR: { value: withR.length ? round(sum(withR, r => Number(r.metrics.r_multiple)) / withR.length, 4) : null, trades: withR },
+        totalPnl: { value: round(sum(closed, pnl)), trades: closed },
+        maxDrawdown: { value: round(maxDd), trades: ddTo >= 0 ? closed.slice(ddFrom, ddTo + 1) : [] },
+        longestLosingStreak: { value: longest.length, trades: longest },
+        missingFx: { value: unconverted.length, trades: unconverted },
+        avgMaeR: { value: avg(withMae, r => Number(r.metrics.mae_r)), trades: withMae },
+        avgMfeR: { value: avg(withMfe, r => Number(r.metrics.mfe_r)), trades: withMfe },
+        avgLeftR: { value: avg(withLeft, leftR), trades: withLeft },
+        nearStop: { value: nearStop.length, trades: nearStop },
+    };
+};
+
+export interface SetupStats {
+    setup: string; // '' for trades without one
+    stats: JournalStats;
+}
+
+// Setups in name order, trades without a setup last; names group case-insensitively under the first spelling seen.
+export const statsBySetup = (records: TradeRecord[]): SetupStats[] => {
+    const groups = new Map<string, { setup: string; trades: TradeRecord[] }>();
+    for (const r of records) {
+        const setup = String(r.fm.setup ?? '').trim();
+        const key = setup.toLowerCase();
+        const group = groups.get(key) ?? { setup, trades: [] };
+        group.trades.push(r);
+        groups.set(key, group);
+    }
+    return Array.from(groups.values())
+        .sort((a, b) => Number(!a.setup) - Number(!b.setup) || a.setup.localeCompare(b.setup))
+        .map(g => ({ setup: g.setup, stats: aggregateTrades(g.trades) }));
+};
@@ -0,0 +1,267 @@
+import { feeInQuote, round, toIsoUtc, tradeDirection, tradePair } from './helpers';
+import type { TradeRecord } from './stats';
+
+export type TaxLotMethod = 'fifo' | 'lifo' | 'hifo';
+export const TAX_LOT_METHODS: TaxLotMethod[] = ['fifo', 'lifo', 'hifo'];
+
+export interface TaxRules {
+    method: TaxLotMethod;
+    longTermDays: number; // holding longer than this is long term
+    yearStart: string; // MM-DD the tax year starts on
+}
+
+// A fill reduced to what tax lots need: units and value are positive, value includes no fees.
+// Value and fee stay in the pair's quote until the pool's currency is known.
+interface TaxFill {
+    trade: string;
+    pool: string;
+    asset: string;
+    account: string;
+    quote: string;
+    direction: 'long' | 'short';
+    opens: boolean;
+    t: number;
+    units: number;
+    value: number;
+    fee: number;
+}
+
+interface Lot {
+    trade: string;
+    t: number;
+    units: number;
+    perUnit: number | null; // cost per unit of a long lot, proceeds per unit of a short one; fees included; null without a rate
+}
+
+export interface Disposal {
+    asset: string;
+    account: string;
+    currency: string;
+    direction: 'long' | 'short';
+    acquired: string | null; // when the lot opened: the buy, or a short's sale; null when no lot was found
+    disposed: string; // when it closed: the sale, or a short's buyback, which decides the tax year
+    units: number;
+    proceeds: number | null; // null, like cost, when that side had no rate into the report's currency
+    cost: number | null;
+    gain: number | null;
+    holdingDays: number | null;
+    term: 'short' | 'long' | null;
+    trade: string; // note of the closing fill
+    lotTrade: string | null; // note the matched lot came from
+}
+
+export interface AssetTotal {
+    asset: string;
+    account: string;
+    currency: string;
+    disposals: number;
+    proceeds: number;
+    cost: number;
+    gain: number;
+    shortTerm: number;
+    longTerm: number;
+    unmatched: number; // disposals without a lot or a rate, left out of proceeds, cost and gain
+}
+
+export interface TaxReport {
+    label: string;
+    from: string;
+    to: string;
+    rules: TaxRules;
+    disposals: Disposal[];
+    totals: AssetTotal[];
+    warnings: string[];
+}
+
+const DAY_MS = 86400000;
+
+// Tax year `year` starts on yearStart of that year; one starting 01-01 is labelled plainly.
+export const taxYearRange = (year: number, yearStart: string) => {
+    const m = yearStart.match(/^(\d{1,2})-(\d{1,2})$/);
+    const month = m ? Number(m[1]) : 1, day = m ? Number(m[2]) : 1;
+    const from = Date.UTC(year, month - 1, day), to = Date.UTC(year + 1, month - 1, day);
+    return { from, to, label: month === 1 && day === 1 ? String(year) : `${year}-${String(year + 1).slice(2)}` };
+};
+
+// Rate into the reporting currency for a quote asset at a time; null when unknown.
+export type TaxConverter = (currency: string, t: number) => number | null;
+
+export interface TaxCurrency {
+    currency: string; // reporting currency every amount is converted into
+    convert: TaxConverter;
+}
+
+const taxFills = (records: TradeRecord[], warnings: string[]): TaxFill[] => {
+    const out: TaxFill[] = [];
+    for (const r of records) {
+        const pair = tradePair(r.fm);
+        if (!pair.base) continue;
+        const direction = tradeDirection(r.fm) > 0 ? 'long' : 'short';
+        const account = String(r.fm.account ?? '').trim();
+        for (const f of Array.isArray(r.fm.fills) ? r.fm.fills : []) {
+            const t = Date.parse(String(f?.t ?? ''));
+            const units = Math.abs(Number(f?.base) || 0), value = Math.abs(Number(f?.quote) || 0);
+            if (isNaN(t) || !units) continue;
+            let fee = feeInQuote(f, pair);
+            if (fee == null) { warnings.push(`${r.name}: fee in ${f.fee_asset} has no quote value and was left out`); fee = 0; }
+            out.push({
+                trade: r.name, asset: pair.base, account, quote: pair.quote, direction, t, units, value, fee,
+                pool: [account, pair.base, direction].join('\u0000'),
+                opens: (f.side || 'in') === 'in',
+            });
+        }
+    }
+    return out;
+};
+
+const pickLot = (lots: Lot[], method: TaxLotMethod, direction: 'long' | 'short') => {
+    if (method === 'fifo') return 0;
+    if (method === 'lifo') return lots.length - 1;
+    // Highest cost first for longs, lowest proceeds first for shorts: both realize the smallest gain.
+    // Lots without a rate are compared as if free, so they are picked last for longs and first for shorts.
+    const per = (l: Lot) => l.perUnit ?? 0;
+    return lots.reduce((best, l, i) => ((direction === 'long' ? per(l) > per(lots[best]) : per(l) < per(lots[best])) ? i : best), 0);
+};
+
+const amount = (perUnit: number | null, units: number) => (perUnit == null ? null : round(perUnit * units) ?? 0);
+
+// Lots pool across notes by account, asset and direction, whatever the quote; a trade's in fills open
+// lots and its out fills close them. Short lots open on the sale and are disposed of when bought back.
+// Every amount is valued in the reporting currency, or without one in the quote a pool first traded in;
+// a fill that can't be converted leaves the disposals it takes part in unmatched.
+export const buildTaxReport = (records: TradeRecord[], year: number, rules: TaxRules, reporting?: TaxCurrency): TaxReport => {
+    const { from, to, label } = taxYearRange(year, rules.yearStart);
+    const warnings: string[] = [];
+    const fills = taxFills(records, warnings).sort((a, b) => a.t - b.t || Number(b.opens) - Number(a.opens));
+    const pools = new Map<string, { currency: string; lots: Lot[] }>();
+    const disposals: Disposal[] = [];
+    for (const f of fills) {
+        const pool = pools.get(f.pool) ?? { currency: reporting?.currency ?? f.quote, lots: [] };
+        pools.set(f.pool, pool);
+        const { currency, lots } = pool;
+        let rate: number | null = 1;
+        if (f.quote !== currency) {
+            rate = reporting ? reporting.convert(f.quote, f.t) : null;
+            if (rate == null) {
+                warnings.push(reporting
+                    ? `${f.trade}: no ${f.quote} rate for ${toIsoUtc(new Date(f.t)).slice(0, 10)}; left unmatched`
+                    : `${f.trade}: ${f.asset} bought and sold in both ${currency} and ${f.quote}; set a reporting currency to match them`);
+            }
+        }
+        // Per unit, fees included on the side they land: added to what a long pays, taken off what a short receives.
+        const perUnit = (sign: number) => (rate == null ? null : ((f.value + sign * f.fee) * rate) / f.units);
+        if (f.opens) {
+            lots.push({ trade: f.trade, t: f.t, units: f.units, perUnit: perUnit(f.direction === 'long' ? 1 : -1) });
+            continue;
+        }
+        const closePerUnit = perUnit(f.direction === 'long' ? -1 : 1);
+        const inYear = f.t >= from && f.t < to;
+        let remaining = f.units;
+        while (remaining > 1e-12 && lots.length) {
+            const i = pickLot(lots, rules.method, f.direction);
+            const lot = lots[i];
+            const take = Math.min(lot.units, remaining);
+            if (inYear) {
+                const long = f.direction === 'long';
+                const proceeds = amount(long ? closePerUnit : lot.perUnit, take), cost = amount(long ? lot.perUnit : closePerUnit, take);
+                const days = Math.floor((f.t - lot.t) / DAY_MS);
+                disposals.push({
+                    asset: f.asset, account: f.account, currency, direction: f.direction,
+                    acquired: toIsoUtc(new Date(lot.t)), disposed: toIsoUtc(new Date(f.t)),
+                    units: round(take) ?? 0, proceeds, cost, gain: proceeds == null || cost == null ? null : round(proceeds - cost) ?? 0,
+                    holdingDays: days, term: days > rules.longTermDays ? 'long' : 'short', trade: f.trade, lotTrade: lot.trade,
+                });
+            }
+            lot.units -= take; remaining -= take;
+            if (lot.units <= 1e-12) lots.splice(i, 1);
+        }
+        if (remaining > 1e-12 && inYear) {
+            warnings.push(`${f.trade}: ${round(remaining)} ${f.asset} closed without an open lot`);
+            const long = f.direction === 'long';
+            disposals.push({
+                asset: f.asset, account: f.account, currency, direction: f.direction,
+                acquired: null, disposed: toIsoUtc(new Date(f.t)), units: round(remaining) ?? 0,
+                proceeds: long ? amount(closePerUnit, remaining) : null, cost: long ? null : amount(closePerUnit, remaining), gain: null, holdingDays: null, term: null, trade: f.trade, lotTrade: null,
+            });
+        }
+    }
+
+    const totals = new Map<string, AssetTotal>();
+    for (const d of disposals) {
+        const key = [d.account, d.asset, d.currency].join('\u0000');
+        const t = totals.get(key) ?? { asset: d.asset, account: d.account, currency: d.currency, disposals: 0, proceeds: 0, cost: 0, gain: 0, shortTerm: 0, longTerm: 0, unmatched: 0 };
+        t.disposals++;
+        if (d.gain == null) { t.unmatched++; totals.set(key, t); continue; }
+        t.proceeds = round(t.proceeds + (d.proceeds ?? 0)) ?? 0;
+        t.cost = round(t.cost + (d.cost ?? 0)) ?? 0;
+        t.gain = round(t.gain + d.gain) ?? 0;
+        if (d.term === 'long') t.longTerm = round(t.longTerm + d.gain) ?? 0;
+        else t.shortTerm = round(t.shortTerm + d.gain) ?? 0;
+        totals.set(key, t);
+    }
+    return {
+        label,
+        from: toIsoUtc(new Date(from)).slice(0, 10),
+        to: toIsoUtc(new Date(to - DAY_MS)).slice(0, 10),
+        rules,
+        disposals: disposals.sort((a, b) => a.disposed.localeCompare(b.disposed)),
+        totals: Array.from(totals.values()).sort((a, b) => a.asset.localeCompare(b.asset) || a.account.localeCompare(b.account)),
+        warnings: Array.from(new Set(warnings)),
+    };
+};
+
+const DISPOSAL_COLUMNS: Array<[string, (d: Disposal) => string | number | null]> = [
+    ['asset', d => d.asset],
+    ['account', d => d.account],
+    ['direction', d => d.direction],
+    ['acquired', d => d.acquired],
+    ['disposed', d => d.disposed],
+    ['units', d => d.units],
+    ['proceeds', d => d.proceeds],
+    ['cost', d => d.cost],
+    ['gain', d => d.gain],
+    ['currency', d => d.currency],
+    ['holding_days', d => d.holdingDays],
+    ['term', d => d.term],
+    ['trade', d => d.trade],
+    ['lot_trade', d => d.lotTrade],
+];
+
+const csvCell = (v: string | number | null) => {
+    const s = v == null ? '' : String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const taxReportCsv = (report: TaxReport) => [
+    DISPOSAL_COLUMNS.map(([h]) => h).join(','),
+    ...report.disposals.map(d => DISPOSAL_COLUMNS.map(([, get]) => csvCell(get(d))).join(',')),
+].join('\n') + '\n';
+
+const mdCell = (v: string | number | null) => (v == null ? '—' : String(v).replace(/\|/g, '\\|'));
+const mdTable = (headers: string[], rows: Array<Array<string | number | null>>) => [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(mdCell).join(' | ')} |`),
+].join('\n');
+
+export const taxReportMarkdown = (report: TaxReport, csvPath: string) => {
+    const { rules } = report;
+    const parts = [
+        `# Realized Gains ${report.label}`,
+        `Tax year ${report.from} to ${report.to}. Lots matched ${rules.method.toUpperCase()} per account and asset across quote currencies; held more than ${rules.longTermDays} days is long term.`,
+        `Disposals as CSV: [[${csvPath}]]`,
+        '## Totals',
+        report.totals.length
+            ? mdTable(['Asset', 'Account', 'Currency', 'Disposals', 'Proceeds', 'Cost', 'Gain', 'Short Term', 'Long Term'],
+                report.totals.map(t => [t.asset, t.account, t.currency, t.unmatched ? `${t.disposals} (${t.unmatched} unmatched)` : t.disposals, t.proceeds, t.cost, t.gain, t.shortTerm, t.longTerm]))
+            : 'No disposals in this tax year.',
+    ];
+    if (report.disposals.length) {
+        parts.push('## Disposals', mdTable(
+            ['Asset', 'Account', 'Acquired', 'Disposed', 'Units', 'Proceeds', 'Cost', 'Gain', 'Days', 'Term', 'Trade'],
+            report.disposals.map(d => [d.asset, d.account, d.acquired?.slice(0, 10) ?? null, d.disposed.slice(0, 10), d.units, d.proceeds, d.cost, d.gain, d.holdingDays, d.term, `[[${d.trade}]]`]),
+        ));
+    }
+    if (report.warnings.length) parts.push('## Warnings', report.warnings.map(w => `- ${w}`).join('\n'));
+    return parts.join('\n\n') + '\n';
+};
@@ -0,0 +1,71 @@
+import { formatDateTimeInZone, round, tradePair } from './helpers';
+import type { TradeFrontmatter } from './schema';
+
+export const BODY_TEMPLATE_TOKENS = [
+    'ID', 'PAIR', 'BASE', 'QUOTE', 'ACTION', 'ACCOUNT', 'SETUP', 'TAGS',
+    'ENTRY', 'AMOUNT', 'ALLOCATION', 'STOP', 'RISK_PER_UNIT', 'RISK', 'LEVERAGE',
+    'PREV_TRADE', 'DATE', 'TIME', 'TIMEZONE', 'DATE_UTC', 'TIME_UTC',
+];
+
+export interface BodyTemplateInput {
+    fm: Partial<TradeFrontmatter>;
+    timeZone: string; // DATE and TIME are shown in this zone
+    previousTrade: string; // link to the last earlier trade on the pair, '' when there is none
+}
+
+const text = (v: number | null | undefined) => (v != null && Number.isFinite(v) ? String(round(v)) : '');
+
+// Values come from the new note's frontmatter and its first fill; anything not known yet is ''.
+export const bodyTemplateValues = (input: BodyTemplateInput): Record<string, string> => {
+    const { fm } = input;
+    const pair = tradePair(fm);
+    const fill = Array.isArray(fm.fills) ? fm.fills[0] : undefined;
+    const amount = fill ? Math.abs(Number(fill.base)) : null;
+    const entry = fill ? Number(fill.price) : null;
+    const stop = fm.initial_stop != null ? Number(fm.initial_stop) : null;
+    const riskPerUnit = entry != null && stop != null ? Math.abs(entry - stop) : null;
+    const when = new Date(String(fm.timestamp ?? ''));
+    const local = isNaN(when.getTime()) ? '' : formatDateTimeInZone(when, input.timeZone);
+    const utc = isNaN(when.getTime()) ? '' : when.toISOString();
+    return {
+        ID: String(fm.id ?? ''),
+        PAIR: pair.base ? `${pair.base}/${pair.quote}` : '',
+        BASE: pair.base,
+        QUOTE: pair.quote,
+        ACTION: String(fm.action ?? ''),
+        ACCOUNT: String(fm.account ?? ''),
+        SETUP: String(fm.setup ?? ''),
+        TAGS: (fm.tags ?? []).map(t => `#${t}`).join(' '),
+        ENTRY: text(entry),
+        AMOUNT: text(amount),
+        ALLOCATION: fill ? text(Math.abs(Number(fill.quote))) : '',
+        STOP: text(stop),
+        RISK_PER_UNIT: text(riskPerUnit),
+        RISK: riskPerUnit != null && amount != null ? text(riskPerUnit * amount) : '',
+        LEVERAGE: fm.leverage != null ? `${fm.leverage}x` : '',
+        PREV_TRADE: input.previousTrade,
+        DATE: local.slice(0, 10),
+        TIME: local.slice(11),
+        TIMEZONE: local ? input.timeZone : '',
+        DATE_UTC: utc.slice(0, 10),
+        TIME_UTC: utc.slice(11, 16),
+    };
+};
+
+// Same ${TOKEN} syntax as the path patterns; unknown tokens are left as typed.
+export const fillTemplate = (template: string, values: Record<string, string>) =>
+    template.replace(/\$\{(\w+)\}/g, (token, name: string) => (name in values ? values[name] : token));
+
+// The latest trade on the same pair opened before `before`.
+export const previousTradeOnPair = <T extends { pair?: string; timestamp?: string }>(trades: T[], pair: string, before: number): T | null => {
+    const key = pair.toUpperCase();
+    let best: T | null = null, bestAt = -Infinity;
+    for (const trade of trades) {
+        const p = tradePair(trade);
+        const at = Date.parse(String(trade.timestamp ?? ''));
+        if (`${p.base}/${p.quote}` !== key || isNaN(at) || at >= before || at <= bestAt) continue;
+        best = trade;
+        bestAt = at;
+    }
+    return best;
+};
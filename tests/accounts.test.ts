@@ -0,0 +1,78 @@
+import { strict as assert } from 'assert';
+import { Account, accountEquityAt, accountEquitySeries, accountSummary, mergeAccounts, parseAccountsNote, parseLedger, returnPct } from '../accounts';
+import { computeMetrics } from '../helpers';
+import { TradeFrontmatter } from '../schema';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const account = (overrides: Partial<Account> = {}): Account => ({
+	name: 'Binance',
+	baseCurrency: 'USDT',
+	startingBalance: 1000,
+	startedAt: '2024-01-01',
+	riskPct: 1,
+	ledger: [
+		{ date: '2024-02-01', amount: 500 },
+		{ date: '2024-04-01T00:00:00Z', amount: -200, note: 'rent' },
+	],
+	source: 'settings',
+	...overrides,
+});
+
+test('ledger parsing drops undated and zero entries', () => {
+	const ledger = parseLedger([
+		{ date: '2024-01-05', amount: '1,000' },
+		{ date: 'soon', amount: 10 },
+		{ date: '2024-01-06', amount: 0 },
+		{ date: '2024-01-07', amount: -50, note: 'fees' },
+	]);
+	assert.deepStrictEqual(ledger, [{ date: '2024-01-05', amount: 1000 }, { date: '2024-01-07', amount: -50, note: 'fees' }]);
+});
+
+test('accounts note is read and overrides settings accounts by name', () => {
+	const fromNote = parseAccountsNote({
+		accounts: [{ name: 'binance', base_currency: 'usdc', starting_balance: 2500, risk_pct: '0.5', ledger: [{ date: '2024-03-01', amount: 100 }] }, { base_currency: 'USD' }],
+	});
+	assert.strictEqual(fromNote.length, 1);
+	assert.strictEqual(fromNote[0].baseCurrency, 'USDC');
+	const merged = mergeAccounts([account(), account({ name: 'Bybit' })], fromNote);
+	assert.deepStrictEqual(merged.map(a => [a.name, a.startingBalance, a.source]), [['binance', 2500, 'note'], ['Bybit', 1000, 'settings']]);
+});
+
+test('equity combines ledger flows and realized pnl before a point in time', () => {
+	const events = [{ t: Date.parse('2024-03-01'), pnl: 120 }, { t: Date.parse('2024-05-01'), pnl: -70 }];
+	assert.strictEqual(accountEquityAt(account(), events, Date.parse('2024-01-15')), 1000);
+	assert.strictEqual(accountEquityAt(account(), events, Date.parse('2024-03-15')), 1620);
+	assert.strictEqual(accountEquityAt(account(), events, Date.parse('2024-06-01')), 1350);
+	const series = accountEquitySeries(account(), events);
+	assert.deepStrictEqual(series.map(p => [p.kind, p.equity]), [['start', 1000], ['deposit', 1500], ['trade', 1620], ['withdrawal', 1420], ['trade', 1350]]);
+});
+
+test('account summary measures pnl against contributed capital', () => {
+	const summary = accountSummary(account(), [{ t: Date.parse('2024-03-01'), pnl: 130 }], Date.parse('2024-06-01'));
+	assert.deepStrictEqual(summary, { equity: 1430, contributed: 1300, pnl: 130, returnPct: 10 });
+	assert.strictEqual(returnPct(50, 0), null);
+});
+
+test('metrics report return as % of account equity at entry', () => {
+	const fm: TradeFrontmatter = {
+		pair: 'BTC/USDT',
+		timestamp: '2024-03-01T00:00:00Z',
+		action: 'long',
+		fills: [
+			{ t: '2024-03-01T00:00:00Z', side: 'in', base: 1, quote: -100, price: 100 },
+			{ t: '2024-03-02T00:00:00Z', side: 'out', base: -1, quote: 125, price: 125 },
+		],
+	} as TradeFrontmatter;
+	const metrics = computeMetrics(fm, { accountEquity: 2500 });
+	assert.strictEqual(metrics.account_equity, 2500);
+	assert.strictEqual(metrics.return_pct, 1);
+	assert.strictEqual(computeMetrics(fm).return_pct, undefined);
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
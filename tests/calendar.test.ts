@@ -0,0 +1,65 @@
+import { strict as assert } from 'assert';
+import { buildFill, computeMetrics } from '../helpers';
+import type { TradeFrontmatter } from '../schema';
+import type { TradeRecord } from '../stats';
+import { calendarMonth, calendarSummary, dailyPnl, heatLevel } from '../calendar';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const record = (name: string, closedAt: string | null, exit: number): TradeRecord => {
+	const when = new Date('2024-02-20T10:00:00Z');
+	const fills = [buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when })];
+	if (closedAt) fills.push(buildFill({ dir: 1, side: 'out', amount: 1, price: exit, when: new Date(closedAt) }));
+	const fm: Partial<TradeFrontmatter> = { pair: 'BTC/USDT', action: 'long', timestamp: when.toISOString(), ...(closedAt ? { closed_at: closedAt } : {}), fills };
+	return { path: `Trades/${name}.md`, name, fm, metrics: computeMetrics(fm) };
+};
+
+const journal = [
+	record('a', '2024-03-01T10:00:00Z', 110),
+	record('b', '2024-03-01T23:30:00Z', 95),
+	record('c', '2024-03-04T12:00:00Z', 90),
+	record('open', null, 0),
+];
+
+test('days follow closed_at in the chosen zone', () => {
+	const utc = dailyPnl(journal, 'UTC');
+	assert.deepStrictEqual(Array.from(utc.values()).map(d => [d.day, d.pnl, d.trades.map(t => t.name)]), [
+		['2024-03-01', 5, ['a', 'b']],
+		['2024-03-04', -10, ['c']],
+	]);
+	const tokyo = dailyPnl(journal, 'Asia/Tokyo');
+	assert.deepStrictEqual(Array.from(tokyo.keys()), ['2024-03-01', '2024-03-02', '2024-03-04']);
+	assert.strictEqual(tokyo.get('2024-03-02')?.pnl, -5);
+});
+
+test('months are laid out Monday first with weekly totals', () => {
+	const weeks = calendarMonth(2024, 3, dailyPnl(journal, 'UTC'));
+	assert.strictEqual(weeks.length, 5);
+	// 1 March 2024 was a Friday.
+	assert.deepStrictEqual(weeks[0].days.map(d => d.day.slice(5)), ['02-26', '02-27', '02-28', '02-29', '03-01', '03-02', '03-03']);
+	assert.deepStrictEqual(weeks[0].days.map(d => d.inMonth), [false, false, false, false, true, true, true]);
+	assert.deepStrictEqual(weeks.map(w => w.total), [5, -10, 0, 0, 0]);
+	assert.deepStrictEqual(weeks[4].days.map(d => d.day.slice(8)), ['25', '26', '27', '28', '29', '30', '31']);
+	assert.strictEqual(calendarMonth(2024, 9, new Map()).length, 6);
+	// February's last week runs into March, and its total counts those days too.
+	const february = calendarMonth(2024, 2, dailyPnl(journal, 'UTC'));
+	assert.strictEqual(february[february.length - 1].total, 5);
+});
+
+test('summary counts winning and losing days in range', () => {
+	const days = dailyPnl(journal, 'Asia/Tokyo');
+	assert.deepStrictEqual(calendarSummary(days, '2024-03-01', '2024-03-31'), { total: -5, trades: 3, winningDays: 1, losingDays: 2 });
+	assert.deepStrictEqual(calendarSummary(days, '2024-03-02', '2024-03-03'), { total: -5, trades: 1, winningDays: 0, losingDays: 1 });
+});
+
+test('heat levels scale to the largest day', () => {
+	assert.deepStrictEqual([0, 1, 5, -10].map(p => heatLevel(p, 10)), [0, 1, 2, 4]);
+	assert.strictEqual(heatLevel(3, 0), 0);
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
@@ -0,0 +1,76 @@
+import { strict as assert } from 'assert';
+import { bestPriceRange, candleInterval, isCandleFileFor, parseCandles, priceRange, savedPriceRange } from '../candles';
+import { buildFill, computeMetrics } from '../helpers';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const hourly = parseCandles([
+	'timestamp,open,high,low,close,volume',
+	'2024-01-01 12:00,100,104,99,103,10',
+	'2024-01-01 10:00,100,101,97,100,10',
+	'2024-01-01 11:00,100,102,96,100,10',
+	'2024-01-01 13:00,103,110,102,108,10',
+	'bad,1,2,3,4,5',
+].join('\n'));
+
+test('candles are read from headed or bare csv and sorted', () => {
+	assert.deepStrictEqual(hourly.map(c => c.high), [101, 102, 104, 110]);
+	assert.strictEqual(candleInterval(hourly), 3600000);
+	const bare = parseCandles('1704103200,1,2,0.5,1.5\n1704106800000,1.5,3,1,2\n');
+	assert.deepStrictEqual(bare.map(c => c.t), [1704103200000, 1704106800000]);
+});
+
+test('price range covers the bars from the entry bar to the close', () => {
+	const from = Date.parse('2024-01-01T10:30:00Z');
+	assert.deepStrictEqual(priceRange(hourly, from, Date.parse('2024-01-01T12:00:00Z')), { high: 104, low: 96 });
+	assert.deepStrictEqual(priceRange(hourly, from), { high: 110, low: 96 });
+	assert.strictEqual(priceRange(hourly, Date.parse('2024-01-02T00:00:00Z')), null);
+	const daily = parseCandles('date,open,high,low,close\n2024-01-01,100,120,90,110\n2024-01-02,110,111,109,110\n');
+	assert.deepStrictEqual(bestPriceRange([daily, hourly], from, Date.parse('2024-01-01T12:00:00Z')), { high: 104, low: 96 });
+});
+
+test('excursions are measured from avg entry in price, quote and R', () => {
+	const fm = {
+		action: 'long' as const,
+		initial_stop: 95,
+		fills: [
+			buildFill({ dir: 1, side: 'in', amount: 2, price: 100, when: new Date('2024-01-01T10:30:00Z') }),
+			buildFill({ dir: 1, side: 'out', amount: 2, price: 103, when: new Date('2024-01-01T12:30:00Z') }),
+		],
+	};
+	const metrics = computeMetrics(fm, { priceRange: { high: 104, low: 96 } });
+	assert.deepStrictEqual(
+		[metrics.mae_price, metrics.mae_quote, metrics.mae_r, metrics.mfe_price, metrics.mfe_quote, metrics.mfe_r],
+		[4, 8, 0.8, 4, 8, 0.8],
+	);
+	const short = computeMetrics({ ...fm, action: 'short', initial_stop: 105, fills: [buildFill({ dir: -1, side: 'in', amount: 1, price: 100 })] }, { priceRange: { high: 102, low: 90 } });
+	assert.deepStrictEqual([short.mae_price, short.mfe_price, short.mfe_r], [2, 10, 2]);
+});
+
+test('candle files match the pair exactly', () => {
+	const pair = { base: 'BTC', quote: 'USD' };
+	assert.ok(isCandleFileFor('BTCUSD-1h', pair));
+	assert.ok(isCandleFileFor('btc_usd', pair));
+	assert.ok(isCandleFileFor('BTC-USD 1d', pair));
+	assert.ok(!isCandleFileFor('BTCUSDT-1h', pair));
+	assert.ok(!isCandleFileFor('WBTCUSD-1h', pair));
+});
+
+test('saved excursions give back the same MAE and MFE without candles', () => {
+	const fm = {
+		action: 'short' as const,
+		initial_stop: 105,
+		fills: [buildFill({ dir: -1, side: 'in', amount: 1, price: 100 })],
+	};
+	const metrics = computeMetrics(fm, { priceRange: { high: 102, low: 90 } });
+	const again = computeMetrics(fm, { priceRange: savedPriceRange({ ...fm, metrics }) });
+	assert.deepStrictEqual([again.mae_price, again.mfe_price, again.mae_r, again.mfe_r], [metrics.mae_price, metrics.mfe_price, metrics.mae_r, metrics.mfe_r]);
+	assert.strictEqual(savedPriceRange(fm), null);
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
@@ -1,5 +1,5 @@
 import { strict as assert } from 'assert';
-import { buildFill, computeMetrics } from '../helpers';
+import { buildFill, computeMetrics, computePositionSize, estimateLiquidation, findPositionFlip, matchLots, parseEntryZone, parseTargets, reconcileClosedAt, splitAtFlip } from '../helpers';
 import type { Metrics, TradeFrontmatter } from '../schema';
 
 interface TestCase {
@@ -164,6 +164,246 @@ test('last_fill_at ignores invalid timestamps', () => {
 	assert.strictEqual(metrics.last_fill_at, exit.t);
 });
 
+test('fees in quote reduce net pnl while gross stays unchanged', () => {
+	const entry = buildFill({ dir: 1, side: 'in', amount: 2, price: 100, when: iso('2023-12-01T10:00:00.000'), fee: 0.2, feeAsset: 'USDT' });
+	const exit = buildFill({ dir: 1, side: 'out', amount: 2, price: 101, when: iso('2023-12-01T11:00:00.000'), fee: 0.202, feeAsset: 'USDT' });
+	const metrics = computeMetrics({ pair: 'BTC/USDT', initial_stop: 99, fills: [entry, exit] });
+	expectApprox(metrics.gross_pnl, 2, 'gross pnl');
+	expectApprox(metrics.fees_total, 0.402, 'fees total');
+	expectApprox(metrics.net_pnl, 1.598, 'net pnl');
+	expectApprox(metrics.realized_pnl, 1.598, 'realized pnl is net');
+	expectApprox(metrics.r_multiple, 0.799, 'r multiple on net');
+	assert.strictEqual(metrics.win, true);
+});
+
+test('base and third-token fees are valued in quote', () => {
+	const entry = buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when: iso('2023-12-02T10:00:00.000'), fee: 0.01, feeAsset: 'sol' });
+	const exit = buildFill({ dir: 1, side: 'out', amount: 1, price: 101, when: iso('2023-12-02T11:00:00.000'), fee: 0.003, feeAsset: 'BNB', feeQuote: 1.5 });
+	const metrics = computeMetrics({ pair: 'SOL/USDT', fills: [entry, exit] });
+	expectApprox(metrics.fees_total, 2.5, 'fees total');
+	expectApprox(metrics.net_pnl, -1.5, 'net pnl');
+	assert.strictEqual(metrics.win, false);
+	assert.strictEqual(metrics.fees_unpriced, undefined);
+});
+
+test('third-token fee without quote value is flagged as unpriced', () => {
+	const entry = buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when: iso('2023-12-03T10:00:00.000'), fee: 0.003, feeAsset: 'BNB' });
+	const metrics = computeMetrics({ pair: 'SOL/USDT', fills: [entry] });
+	expectApprox(metrics.fees_total, 0, 'fees total');
+	assert.strictEqual(metrics.fees_unpriced, true);
+	assert.strictEqual(metrics.net_pnl, null);
+});
+
+const scaledLong = () => [
+	buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when: iso('2024-01-01T10:00:00.000') }),
+	buildFill({ dir: 1, side: 'in', amount: 1, price: 200, when: iso('2024-01-02T10:00:00.000') }),
+	buildFill({ dir: 1, side: 'out', amount: 1, price: 250, when: iso('2024-01-03T10:00:00.000') }),
+];
+
+test('average cost basis applies blended entry to exited units', () => {
+	const metrics = computeMetrics({ action: 'long', fills: scaledLong() });
+	expectApprox(metrics.realized_pnl, 100, 'realized pnl');
+	assert.strictEqual(metrics.cost_basis, 'average');
+});
+
+test('fifo cost basis matches the oldest lot first', () => {
+	const metrics = computeMetrics({ action: 'long', fills: scaledLong() }, { costBasis: 'fifo' });
+	expectApprox(metrics.realized_pnl, 150, 'realized pnl');
+	assert.strictEqual(metrics.cost_basis, 'fifo');
+});
+
+test('trade cost_basis overrides the default method', () => {
+	const metrics = computeMetrics({ action: 'long', cost_basis: 'lifo', fills: scaledLong() }, { costBasis: 'fifo' });
+	expectApprox(metrics.realized_pnl, 50, 'realized pnl');
+	assert.strictEqual(metrics.cost_basis, 'lifo');
+});
+
+test('matchLots splits a short exit across lots and reports the open remainder', () => {
+	const fills = [
+		buildFill({ dir: -1, side: 'in', amount: 1, price: 300, when: iso('2024-02-01T10:00:00.000') }),
+		buildFill({ dir: -1, side: 'in', amount: 2, price: 330, when: iso('2024-02-02T10:00:00.000') }),
+		buildFill({ dir: -1, side: 'out', amount: 2, price: 310, when: iso('2024-02-03T10:00:00.000') }),
+	];
+	const { exits, open } = matchLots(fills, 'fifo', -1);
+	assert.strictEqual(exits.length, 1);
+	assert.deepStrictEqual(exits[0].lots.map(l => [l.units, l.price]), [[1, 300], [1, 330]]);
+	expectApprox(exits[0].pnl, 10, 'exit pnl');
+	assert.deepStrictEqual(open.map(l => [l.units, l.price]), [[1, 330]]);
+});
+
+test('mark price yields unrealized pnl and open R on the remaining position', () => {
+	const entry = buildFill({ dir: 1, side: 'in', amount: 3, price: 100, when: iso('2024-03-01T10:00:00.000') });
+	const exit = buildFill({ dir: 1, side: 'out', amount: 1, price: 120, when: iso('2024-03-02T10:00:00.000') });
+	const metrics = computeMetrics({ action: 'long', initial_stop: 90, fills: [entry, exit] }, { markPrice: 110 });
+	expectApprox(metrics.mark_price ?? null, 110, 'mark price');
+	expectApprox(metrics.unrealized_pnl ?? null, 20, 'unrealized pnl');
+	expectApprox(metrics.open_r ?? null, 1, 'open R');
+});
+
+test('manual mark wins over the price file and fifo marks open lots', () => {
+	const metrics = computeMetrics({ action: 'long', mark: 150, fills: scaledLong() }, { costBasis: 'fifo', markPrice: 999 });
+	expectApprox(metrics.mark_price ?? null, 150, 'mark price');
+	expectApprox(metrics.unrealized_pnl ?? null, -50, 'unrealized pnl on the 200 lot');
+});
+
+test('flat trades carry no mark', () => {
+	const metrics = computeMetrics({ action: 'long', fills: scaledLong().slice(0, 1).concat(buildFill({ dir: 1, side: 'out', amount: 1, price: 101 })) }, { markPrice: 110 });
+	assert.strictEqual(metrics.mark_price, undefined);
+	assert.strictEqual(metrics.unrealized_pnl, undefined);
+});
+
+test('reconcileClosedAt closes flat trades at the last fill and reopens others', () => {
+	const fm: Partial<TradeFrontmatter> = { action: 'long', fills: scaledLong() };
+	fm.fills?.push(buildFill({ dir: 1, side: 'out', amount: 1, price: 260, when: iso('2024-01-04T09:30:00.000') }));
+	reconcileClosedAt(fm);
+	assert.strictEqual(fm.closed_at, '2024-01-04T09:30:00.000Z');
+	fm.fills?.pop();
+	reconcileClosedAt(fm);
+	assert.strictEqual(fm.closed_at, undefined);
+});
+
+test('position size risks the chosen share of equity to the stop', () => {
+	const long = computePositionSize({ equity: 10000, riskPct: 1, entry: 100, stop: 95 });
+	assert.deepStrictEqual(long, { action: 'long', riskQuote: 100, riskPerUnit: 5, amount: 20, allocation: 2000 });
+	const short = computePositionSize({ equity: 5000, riskPct: 2, entry: 50, stop: 52.5 });
+	assert.strictEqual(short?.action, 'short');
+	expectApprox(short?.amount ?? null, 40, 'short amount');
+	assert.strictEqual(computePositionSize({ equity: 10000, riskPct: 1, entry: 100, stop: 100 }), null);
+	assert.strictEqual(computePositionSize({ equity: NaN, riskPct: 1, entry: 100, stop: 90 }), null);
+});
+
+test('trailed stop locks in R while the R multiple stays on initial_stop', () => {
+	const fm: Partial<TradeFrontmatter> = {
+		action: 'long',
+		initial_stop: 95,
+		stop_history: [
+			{ t: '2024-01-03T10:00:00.000Z', price: 105, note: 'trail' },
+			{ t: '2024-01-02T10:00:00.000Z', price: 100, note: 'breakeven' },
+		],
+		fills: [
+			buildFill({ dir: 1, side: 'in', amount: 2, price: 100, when: iso('2024-01-01T10:00:00.000') }),
+			buildFill({ dir: 1, side: 'out', amount: 1, price: 110, when: iso('2024-01-02T10:00:00.000') }),
+		],
+	};
+	const metrics = computeMetrics(fm);
+	assert.strictEqual(metrics.current_stop, 105);
+	assert.strictEqual(metrics.initial_risk, 10);
+	assert.strictEqual(metrics.risk_remaining, -5);
+	assert.strictEqual(metrics.locked_r, 1.5);
+	assert.strictEqual(metrics.r_multiple, 2);
+	fm.stop_history = [];
+	assert.strictEqual(computeMetrics(fm).risk_remaining, 5);
+	assert.strictEqual(computeMetrics(fm).locked_r, 0.5);
+});
+
+test('an oversized exit is split into an opposite-direction trade', () => {
+	const fm: Partial<TradeFrontmatter> = {
+		action: 'long',
+		fills: [
+			buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when: iso('2024-01-01T10:00:00.000') }),
+			{ ...buildFill({ dir: 1, side: 'out', amount: 3, price: 110, when: iso('2024-01-02T10:00:00.000') }), fee: 0.3 },
+			buildFill({ dir: 1, side: 'out', amount: 1, price: 105, when: iso('2024-01-03T10:00:00.000') }),
+			buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when: iso('2024-01-04T10:00:00.000') }),
+		],
+	};
+	assert.deepStrictEqual(findPositionFlip(fm), { fillIndex: 1, closing: 1, excess: 2 });
+	const split = splitAtFlip(fm);
+	assert.deepStrictEqual(split?.kept.map(f => [f.side, f.base, f.quote, f.fee]), [['in', 1, -100, undefined], ['out', -1, 110, 0.1]]);
+	assert.deepStrictEqual(split?.moved.map(f => [f.side, f.base, f.quote, f.fee]), [['in', -2, 220, 0.2], ['in', -1, 105, undefined], ['out', 1, -100, undefined]]);
+	const opposite = computeMetrics({ action: 'short', fills: split?.moved });
+	expectApprox(opposite.gross_pnl, 8.3333333333, 'short gross pnl');
+	assert.strictEqual(opposite.position, -2);
+	assert.strictEqual(findPositionFlip({ action: 'long', fills: split?.kept }), null);
+});
+
+const plannedLong = (): Partial<TradeFrontmatter> => ({
+	action: 'long',
+	plan: { entry: [98, 100], stop: 95, targets: [{ price: 110, size: 0.5 }, { price: 120, size: 0.5 }] },
+	fills: [
+		buildFill({ dir: 1, side: 'in', amount: 2, price: 101, when: iso('2024-01-01T10:00:00.000') }),
+		buildFill({ dir: 1, side: 'out', amount: 1, price: 111, when: iso('2024-01-02T10:00:00.000') }),
+		buildFill({ dir: 1, side: 'out', amount: 1, price: 115, when: iso('2024-01-03T10:00:00.000') }),
+	],
+});
+
+test('plan metrics compare execution against entry zone, stop and targets', () => {
+	const metrics = computeMetrics(plannedLong());
+	assert.strictEqual(metrics.planned_rr, 4);
+	assert.deepStrictEqual(metrics.targets_hit, [true, false]);
+	expectApprox(metrics.plan_slippage ?? null, 1, 'entry slippage');
+	assert.strictEqual(metrics.plan_followed_pct, 50);
+});
+
+test('unreached targets of an open trade are not counted as missed', () => {
+	const fm = plannedLong();
+	fm.fills?.pop();
+	const metrics = computeMetrics(fm);
+	assert.deepStrictEqual(metrics.targets_hit, [true, false]);
+	assert.strictEqual(metrics.plan_followed_pct, 66.67);
+	assert.strictEqual(computeMetrics({ action: 'long', fills: scaledLong() }).planned_rr, undefined);
+});
+
+test('carry is part of net PnL and reported on its own', () => {
+	const fm: Partial<TradeFrontmatter> = {
+		action: 'short',
+		fills: [
+			buildFill({ dir: -1, side: 'in', amount: 1, price: 100, when: iso('2024-01-01T10:00:00.000') }),
+			buildFill({ dir: -1, side: 'out', amount: 1, price: 90, when: iso('2024-01-03T10:00:00.000') }),
+		],
+		carry: [
+			{ t: '2024-01-01T16:00:00.000Z', amount: 0.4, kind: 'funding' },
+			{ t: '2024-01-02T00:00:00.000Z', amount: -1.5, kind: 'borrow' },
+			{ t: 'bad', amount: 100, kind: 'funding' },
+		],
+	};
+	const metrics = computeMetrics(fm);
+	assert.strictEqual(metrics.gross_pnl, 10);
+	assert.strictEqual(metrics.carry_total, -1.1);
+	assert.strictEqual(metrics.net_pnl, 8.9);
+	assert.strictEqual(metrics.realized_pnl, 8.9);
+	fm.carry = [];
+	assert.strictEqual(computeMetrics(fm).carry_total, undefined);
+});
+
+test('leveraged trades report margin, return on margin and liquidation', () => {
+	const fm: Partial<TradeFrontmatter> = {
+		action: 'long',
+		leverage: 10,
+		initial_stop: 85,
+		fills: [
+			buildFill({ dir: 1, side: 'in', amount: 2, price: 100, when: iso('2024-01-01T10:00:00.000') }),
+			buildFill({ dir: 1, side: 'out', amount: 1, price: 105, when: iso('2024-01-02T10:00:00.000') }),
+		],
+	};
+	const metrics = computeMetrics(fm, { maintenanceMarginPct: 0 });
+	assert.strictEqual(metrics.initial_margin, 20);
+	assert.strictEqual(metrics.return_on_margin, 25);
+	assert.strictEqual(metrics.liquidation_price, 90);
+	expectApprox(computeMetrics({ ...fm, maintenance_margin_pct: 1 }, { maintenanceMarginPct: 0 }).liquidation_price ?? null, 90 / 0.99, 'own maintenance margin wins');
+	const cross = computeMetrics({ ...fm, margin_mode: 'cross' }, { accountEquity: 50, maintenanceMarginPct: 0 });
+	assert.strictEqual(cross.liquidation_price, 50);
+	assert.strictEqual(computeMetrics({ ...fm, margin_mode: 'cross' }).liquidation_price, null);
+	assert.strictEqual(computeMetrics({ ...fm, leverage: undefined }).initial_margin, undefined);
+});
+
+test('short liquidation sits above entry and 1x longs are never liquidated', () => {
+	assert.strictEqual(estimateLiquidation({ dir: -1, entry: 100, units: 1, collateral: 20, maintenancePct: 0 }), 120);
+	assert.strictEqual(estimateLiquidation({ dir: 1, entry: 100, units: 1, collateral: 100, maintenancePct: 0 }), null);
+});
+
+test('plan inputs parse targets and entry zones', () => {
+	assert.deepStrictEqual(parseTargets('110@50%, 120@0.25 130'), [{ price: 110, size: 0.5 }, { price: 120, size: 0.25 }, { price: 130, size: 0.25 }]);
+	assert.throws(() => parseTargets('110@80%, 120@40%'));
+	assert.deepStrictEqual(parseEntryZone('102 - 100'), [100, 102]);
+	assert.strictEqual(parseEntryZone('100'), 100);
+	assert.strictEqual(parseEntryZone(''), undefined);
+	assert.deepStrictEqual(parseEntryZone('100..102'), [100, 102]);
+	assert.deepStrictEqual(parseEntryZone('0.5–0.55'), [0.5, 0.55]);
+	assert.deepStrictEqual(parseEntryZone('100-102'), [100, 102]);
+	assert.throws(() => parseEntryZone('-100'));
+	assert.throws(() => parseEntryZone('-100 - -90'));
+});
+
 if (require.main === module) {
 	run();
 }
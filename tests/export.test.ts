@@ -0,0 +1,65 @@
+import { strict as assert } from 'assert';
+import { buildFill, computeMetrics } from '../helpers';
+import type { TradeFrontmatter } from '../schema';
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions, buildExport, knownColumns, selectForExport } from '../export';
+import type { TradeRecord } from '../stats';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const record = (path: string, day: string, extra: Partial<TradeFrontmatter> = {}): TradeRecord => {
+	const when = new Date(`${day}T10:00:00Z`);
+	const fm: Partial<TradeFrontmatter> = {
+		pair: 'BTC/USDT',
+		action: 'long',
+		tags: ['breakout'],
+		timestamp: when.toISOString(),
+		closed_at: when.toISOString(),
+		fills: [buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when }), buildFill({ dir: 1, side: 'out', amount: 1, price: 110, when, note: 'tp, "first"' })],
+		...extra,
+	};
+	return { path, name: path.split('/').pop()?.replace('.md', '') ?? path, fm, metrics: computeMetrics(fm) };
+};
+
+const journal = [
+	record('Trades/2024/T-a.md', '2024-01-02'),
+	record('Trades/2024/T-b.md', '2024-02-02', { tags: ['range'] }),
+	record('Other/T-c.md', '2024-01-03'),
+];
+
+const options = (overrides: Partial<ExportOptions> = {}): ExportOptions => ({ ...DEFAULT_EXPORT_OPTIONS, ...overrides });
+
+test('folder, date and tag filters select the exported trades', () => {
+	assert.deepStrictEqual(selectForExport(journal, options({ folder: 'Trades/' })).map(r => r.name), ['T-a', 'T-b']);
+	assert.deepStrictEqual(selectForExport(journal, options({ to: '2024-01-31', tags: '#breakout' })).map(r => r.name), ['T-a', 'T-c']);
+});
+
+test('trade rows follow the chosen column order as csv', () => {
+	const csv = buildExport(journal.slice(0, 1), options({ columns: { trades: ['metrics.realized_pnl', 'name', 'tags', 'gone'], fills: [], setups: [] } }));
+	assert.strictEqual(csv, 'metrics.realized_pnl,name,tags\n10,T-a,breakout\n');
+	assert.deepStrictEqual(knownColumns('trades', ['gone', 'pair']), ['pair']);
+});
+
+test('fill rows quote cells that need it and json keeps types', () => {
+	const csv = buildExport(journal.slice(0, 1), options({ rows: 'fills', columns: { trades: [], fills: ['trade', 'side', 'base', 'note'], setups: [] } }));
+	assert.strictEqual(csv, 'trade,side,base,note\nT-a,in,1,\nT-a,out,-1,"tp, ""first"""\n');
+	const json = JSON.parse(buildExport(journal.slice(0, 1), options({ format: 'json', columns: { trades: ['name', 'tags', 'metrics.win'], fills: [], setups: [] } })));
+	assert.deepStrictEqual(json, [{ name: 'T-a', tags: ['breakout'], 'metrics.win': true }]);
+});
+
+test('setup rows summarize each setup with trades without one last', () => {
+	const records = [
+		record('T/a.md', '2024-01-02', { setup: 'Breakout' }),
+		record('T/b.md', '2024-01-03', { setup: 'breakout', fills: [buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when: new Date('2024-01-03T10:00:00Z') }), buildFill({ dir: 1, side: 'out', amount: 1, price: 95, when: new Date('2024-01-03T10:00:00Z') })] }),
+		record('T/c.md', '2024-01-04'),
+		record('T/d.md', '2024-01-05', { setup: 'Pullback' }),
+	];
+	const csv = buildExport(records, options({ rows: 'setups', columns: { trades: [], fills: [], setups: ['setup', 'closed', 'win_rate', 'expectancy'] } }));
+	assert.strictEqual(csv, 'setup,closed,win_rate,expectancy\nBreakout,2,0.5,2.5\nPullback,1,1,10\n,1,1,10\n');
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
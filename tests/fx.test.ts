@@ -0,0 +1,34 @@
+import { strict as assert } from 'assert';
+import { fxRate, parseFxTable } from '../fx';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+test('csv table is grouped by asset and sorted by day', () => {
+	const table = parseFxTable('date,asset,rate\n2024-01-03,usdt,0.91\n2024-01-01,USDT,0.92\n2024-01-02,BTC,"40,000"\nbad,EUR,1\n', 'fx.csv');
+	assert.deepStrictEqual(table, {
+		USDT: [{ day: '2024-01-01', rate: 0.92 }, { day: '2024-01-03', rate: 0.91 }],
+		BTC: [{ day: '2024-01-02', rate: 40000 }],
+	});
+});
+
+test('json tables accept nested days or rows', () => {
+	assert.deepStrictEqual(parseFxTable('{ "USDT": { "2024-01-01": 0.9, "2024-01-02": "x" } }'), { USDT: [{ day: '2024-01-01', rate: 0.9 }] });
+	assert.deepStrictEqual(parseFxTable('[{ "date": "2024-01-01T12:00:00Z", "symbol": "btc", "price": 42000 }]', 'fx.json'), { BTC: [{ day: '2024-01-01', rate: 42000 }] });
+});
+
+test('rates fall back to the latest earlier day within a week', () => {
+	const table = parseFxTable('2024-01-01,USDT,0.92\n2024-01-05,USDT,0.9\n');
+	assert.strictEqual(fxRate(table, 'USDT', 'EUR', '2024-01-04T23:00:00Z'), 0.92);
+	assert.strictEqual(fxRate(table, 'usdt', 'EUR', '2024-01-05'), 0.9);
+	assert.strictEqual(fxRate(table, 'USDT', 'EUR', '2024-01-13'), null);
+	assert.strictEqual(fxRate(table, 'USDT', 'EUR', '2023-12-31'), null);
+	assert.strictEqual(fxRate(table, 'eur', 'EUR', 'whenever'), 1);
+	assert.strictEqual(fxRate(table, 'BTC', 'EUR', '2024-01-05'), null);
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
@@ -0,0 +1,32 @@
+export interface TestCase {
+	name: string;
+	run: () => void;
+}
+
+// Same runner as computeMetrics.test.ts, shared by the other suites.
+export const createSuite = () => {
+	const tests: TestCase[] = [];
+	const test = (name: string, run: () => void) => {
+		tests.push({ name, run });
+	};
+	const run = () => {
+		let failures = 0;
+		for (const tc of tests) {
+			try {
+				tc.run();
+				console.log(`✓ ${tc.name}`);
+			} catch (err) {
+				failures += 1;
+				console.error(`✗ ${tc.name}`);
+				console.error(err instanceof Error ? err.stack : err);
+			}
+		}
+		if (failures) {
+			console.error(`\n${failures} test${failures === 1 ? '' : 's'} failed`);
+			process.exitCode = 1;
+		} else {
+			console.log(`\n${tests.length} tests passed`);
+		}
+	};
+	return { tests, test, run };
+};
@@ -0,0 +1,129 @@
+import { strict as assert } from 'assert';
+import { FUNDING_PRESETS, IMPORT_PRESETS, parseFundingHistory, parseTradeHistory, planCarryImport, planImport } from '../importer';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const preset = (name: string) => {
+	const mapping = IMPORT_PRESETS.find(p => p.name === name);
+	assert.ok(mapping, `${name} preset exists`);
+	return mapping;
+};
+
+test('binance export splits units from amounts and fees', () => {
+	const csv = '"Date(UTC)","Pair","Side","Price","Executed","Amount","Fee"\n"2024-03-01 10:15:30","BTCUSDT","BUY","60000","0.5BTC","30000USDT","0.0005BNB"\n';
+	const { rows, errors } = parseTradeHistory(csv, preset('Binance'), 'binance');
+	assert.deepStrictEqual(errors, []);
+	assert.strictEqual(rows.length, 1);
+	const row = rows[0];
+	assert.strictEqual(row.base, 'BTC');
+	assert.strictEqual(row.quote, 'USDT');
+	assert.strictEqual(row.side, 'buy');
+	assert.strictEqual(row.amount, 0.5);
+	assert.strictEqual(row.total, 30000);
+	assert.strictEqual(row.fee, 0.0005);
+	assert.strictEqual(row.feeAsset, 'BNB');
+	assert.strictEqual(row.account, 'binance');
+	assert.strictEqual(row.t.toISOString(), '2024-03-01T10:15:00.000Z');
+});
+
+test('hyperliquid directions map to buy/sell with a default quote', () => {
+	const csv = 'time,coin,dir,px,sz,ntl,fee,closedPnl\n1709287200000,HYPE,Open Short,10,5,50,0.02,0\n1709290800000,HYPE,Close Short,9,5,45,0.02,5\n';
+	const { rows, errors } = parseTradeHistory(csv, preset('Hyperliquid'));
+	assert.deepStrictEqual(errors, []);
+	assert.deepStrictEqual(rows.map(r => [r.base, r.quote, r.side]), [['HYPE', 'USDC', 'sell'], ['HYPE', 'USDC', 'buy']]);
+	assert.strictEqual(rows[0].feeAsset, 'USDC');
+});
+
+test('rows with bad values are reported and skipped', () => {
+	const csv = 'time,pair,side,amount,price\n2024-01-01 00:00,BTC/USDT,hold,1,100\nnope,BTC/USDT,buy,1,100\n2024-01-01 00:00,BTC/USDT,buy,0,100\n';
+	const { rows, errors } = parseTradeHistory(csv, preset('Generic'));
+	assert.strictEqual(rows.length, 0);
+	assert.strictEqual(errors.length, 3);
+});
+
+test('missing columns fail the whole file', () => {
+	const { rows, errors } = parseTradeHistory('when,what\n1,2\n', preset('Generic'));
+	assert.strictEqual(rows.length, 0);
+	assert.match(errors[0], /Missing column/);
+});
+
+test('plan appends to a matching open trade and closes it when flat', () => {
+	const csv = 'time,pair,side,amount,price,account,id\n2024-01-02 10:00,SOL/USDT,sell,2,110,main,t1\n2024-01-02 11:00,SOL/USDT,sell,1,120,main,t2\n';
+	const { rows } = parseTradeHistory(csv, preset('Generic'));
+	const plan = planImport(rows, [{ path: 'T/sol.md', pair: 'SOL/USDT', account: 'Main', action: 'long', position: 2, txs: ['t0'] }]);
+	assert.strictEqual(plan.entries.length, 2);
+	const [append, created] = plan.entries;
+	assert.deepStrictEqual(append.target, { kind: 'append', path: 'T/sol.md' });
+	assert.strictEqual(append.fills[0].side, 'out');
+	assert.strictEqual(append.fills[0].base, -2);
+	assert.strictEqual(append.closedAt?.toISOString(), '2024-01-02T10:00:00.000Z');
+	assert.deepStrictEqual(created.target, { kind: 'new', pair: 'SOL/USDT', account: 'main', action: 'short' });
+	assert.strictEqual(created.fills[0].side, 'in');
+	assert.strictEqual(created.fills[0].quote, 120);
+});
+
+test('plan skips rows whose tx id is already on the trade', () => {
+	const csv = 'time,pair,side,amount,price,id\n2024-01-02 10:00,ETH/USDT,buy,1,3000,t1\n';
+	const { rows } = parseTradeHistory(csv, preset('Generic'));
+	const plan = planImport(rows, [{ path: 'T/eth.md', pair: 'ETH/USDT', account: '', action: 'long', position: 1, txs: ['t1'] }]);
+	assert.strictEqual(plan.entries.length, 0);
+	assert.strictEqual(plan.duplicates, 1);
+});
+
+test('plan skips rows already on a closed trade', () => {
+	const csv = 'time,pair,side,amount,price,id\n2024-01-02 10:00,ETH/USDT,buy,1,3000,t1\n2024-01-03 10:00,ETH/USDT,sell,1,3100,t2\n2024-01-04 10:00,ETH/USDT,buy,1,3050,t3\n';
+	const { rows } = parseTradeHistory(csv, preset('Generic'));
+	const plan = planImport(rows, [], ['t1', 't2']);
+	assert.strictEqual(plan.duplicates, 2);
+	assert.strictEqual(plan.entries.length, 1);
+	assert.deepStrictEqual(plan.entries[0].fills.map(f => f.txs), [['t3']]);
+});
+
+test('plan splits a row that takes the position through zero', () => {
+	const csv = 'time,pair,side,amount,price,fee,id\n2024-01-02 10:00,SOL/USDT,sell,3,110,0.3,t1\n2024-01-02 11:00,SOL/USDT,buy,1,105,,t2\n';
+	const { rows } = parseTradeHistory(csv, preset('Generic'));
+	const plan = planImport(rows, [{ path: 'T/sol.md', pair: 'SOL/USDT', account: '', action: 'long', position: 2, txs: [] }]);
+	assert.strictEqual(plan.entries.length, 2);
+	const [append, flipped] = plan.entries;
+	assert.deepStrictEqual(append.fills.map(f => [f.side, f.base, f.quote, f.fee, f.txs]), [['out', -2, 220, 0.2, ['t1']]]);
+	assert.strictEqual(append.closedAt?.toISOString(), '2024-01-02T10:00:00.000Z');
+	assert.deepStrictEqual(flipped.target, { kind: 'new', pair: 'SOL/USDT', account: '', action: 'short' });
+	assert.strictEqual(flipped.flippedFrom, append);
+	assert.deepStrictEqual(flipped.fills.map(f => [f.side, f.base, f.quote, f.fee]), [['in', -1, 110, 0.1], ['out', 1, -105, undefined]]);
+	assert.strictEqual(flipped.closedAt?.toISOString(), '2024-01-02T11:00:00.000Z');
+	assert.strictEqual(plan.duplicates, 0);
+});
+
+test('funding history keeps carry rows and skips other income types', () => {
+	const mapping = FUNDING_PRESETS.find(p => p.name === 'Binance Futures');
+	assert.ok(mapping);
+	const csv = 'Time,Symbol,Income Type,Income,Asset\n2024-01-01 16:00:00,BTCUSDT,FUNDING_FEE,-0.25,USDT\n2024-01-01 17:00:00,BTCUSDT,COMMISSION,-1,USDT\n2024-01-01 08:00:00,BTCUSDT,FUNDING_FEE,0.1,USDT\n';
+	const { rows, errors, skipped } = parseFundingHistory(csv, mapping);
+	assert.deepStrictEqual(errors, []);
+	assert.strictEqual(skipped, 1);
+	assert.deepStrictEqual(rows.map(r => [r.base, r.quote, r.amount, r.kind]), [['BTC', 'USDT', 0.1, 'funding'], ['BTC', 'USDT', -0.25, 'funding']]);
+});
+
+test('carry rows go to the one trade holding the pair at that time', () => {
+	const csv = 'time,pair,amount,kind\n2024-01-01 08:00,BTC/USDT,-1,funding\n2024-01-02 08:00,BTC/USDT,-2,funding\n2024-01-03 08:00,BTC/USDT,-3,funding\n2024-01-05 08:00,BTC/USDT,-4,funding\n2024-01-02 08:00,ETH/USDT,5,interest\n';
+	const { rows } = parseFundingHistory(csv, FUNDING_PRESETS[FUNDING_PRESETS.length - 1]);
+	const day = (d: string) => Date.parse(`${d}T00:00:00Z`);
+	const plan = planCarryImport(rows, [
+		{ path: 'T/a.md', pair: 'BTC/USDT', account: '', from: day('2024-01-01'), to: day('2024-01-04'), carry: [{ t: '2024-01-01T08:00:00.000Z', amount: -1, kind: 'funding' }] },
+		{ path: 'T/b.md', pair: 'BTC/USDT', account: '', from: day('2024-01-03'), to: null, carry: [] },
+	]);
+	assert.deepStrictEqual(plan.entries, [
+		{ path: 'T/a.md', carry: [{ t: '2024-01-02T08:00:00.000Z', amount: -2, kind: 'funding' }] },
+		{ path: 'T/b.md', carry: [{ t: '2024-01-05T08:00:00.000Z', amount: -4, kind: 'funding' }] },
+	]);
+	assert.strictEqual(plan.duplicates, 1);
+	assert.strictEqual(plan.ambiguous, 1);
+	assert.strictEqual(plan.unmatched, 1);
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
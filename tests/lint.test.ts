@@ -0,0 +1,102 @@
+import { strict as assert } from 'assert';
+import { buildFill } from '../helpers';
+import { lintTrade } from '../lint';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const when = (day: string) => new Date(`${day}T10:00:00Z`);
+const cleanLong = () => ({
+	pair: 'BTC/USDT',
+	quote: 'USDT',
+	action: 'long',
+	fills: [
+		buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when: when('2024-01-01') }),
+		buildFill({ dir: 1, side: 'out', amount: 1, price: 110, when: when('2024-01-02') }),
+	],
+	closed_at: '2024-01-02T10:00:00.000Z',
+} as Record<string, any>);
+
+const codes = (fm: Record<string, any>) => lintTrade(fm).map(p => p.code);
+
+test('fills written by buildFill pass', () => {
+	assert.deepStrictEqual(codes(cleanLong()), []);
+});
+
+test('sign contradictions are reported and fixable', () => {
+	const fm = cleanLong();
+	fm.fills[0].base = -1;
+	fm.fills[1].quote = -110;
+	const problems = lintTrade(fm);
+	assert.deepStrictEqual(problems.map(p => p.code).sort(), ['base-sign', 'closed-not-flat', 'quote-sign']);
+	problems.filter(p => p.code !== 'closed-not-flat').forEach(p => p.fix?.apply(fm));
+	assert.deepStrictEqual(codes(fm), []);
+});
+
+test('quote that disagrees with price is recomputed', () => {
+	const fm = cleanLong();
+	fm.fills[1].quote = 100;
+	const [problem] = lintTrade(fm);
+	assert.strictEqual(problem.code, 'quote-price');
+	problem.fix?.apply(fm);
+	assert.strictEqual(fm.fills[1].quote, 110);
+});
+
+test('close state, late fills and pair/quote mismatch', () => {
+	const open = cleanLong();
+	delete open.closed_at;
+	const [flat] = lintTrade(open);
+	assert.strictEqual(flat.code, 'flat-not-closed');
+	flat.fix?.apply(open);
+	assert.strictEqual(open.closed_at, '2024-01-02T10:00:00.000Z');
+
+	const late = cleanLong();
+	late.closed_at = '2024-01-01T12:00:00.000Z';
+	late.quote = 'USDC';
+	assert.deepStrictEqual(codes(late).sort(), ['fill-after-close', 'pair-quote']);
+});
+
+test('bad action, side and time are errors without fixes', () => {
+	const fm = cleanLong();
+	fm.action = 'sideways';
+	fm.fills[0].t = 'yesterday';
+	fm.fills.push({ side: 'maybe', base: 1 });
+	const problems = lintTrade(fm);
+	assert.ok(problems.some(p => p.code === 'action' && !p.fix));
+	assert.ok(problems.some(p => p.code === 'fill-time' && p.fillIndex === 0));
+	assert.ok(problems.some(p => p.code === 'fill-side' && p.fillIndex === 2));
+});
+
+test('plans with inverted levels or oversized targets are warned about', () => {
+	const fm = { ...cleanLong(), plan: { entry: [100, 102], stop: 105, targets: [{ price: 120, size: 0.8 }, { price: 99, size: 0.4 }] } };
+	assert.deepStrictEqual(codes(fm), ['plan-size', 'plan-stop', 'plan-target']);
+	assert.deepStrictEqual(codes({ ...cleanLong(), plan: { entry: 100, stop: 95, targets: [{ price: 110, size: 1 }] } }), []);
+});
+
+test('stop history entries must be valid and should not widen the stop', () => {
+	const fm = { ...cleanLong(), initial_stop: 95, stop_history: [{ t: '2024-01-01T12:00:00Z', price: 100 }, { t: '2024-01-01T13:00:00Z', price: 98 }, { t: 'later', price: 101 }] };
+	assert.deepStrictEqual(codes(fm), ['stop-widened', 'stop-history']);
+});
+
+test('an exit larger than the position is a flip', () => {
+	const fm = cleanLong();
+	fm.fills[1] = buildFill({ dir: 1, side: 'out', amount: 2, price: 110, when: when('2024-01-02') });
+	assert.ok(codes(fm).includes('position-flip'));
+	assert.strictEqual(lintTrade(fm).find(p => p.code === 'position-flip')?.fillIndex, 1);
+});
+
+test('carry entries need a time and amount and should fall inside the trade', () => {
+	const fm = { ...cleanLong(), carry: [{ t: '2024-01-01T16:00:00Z', amount: -0.5, kind: 'funding' }, { t: '2024-01-03T00:00:00Z', amount: 1, kind: 'rebate' }, { t: '2024-01-01T18:00:00Z', amount: 'n/a' }] };
+	assert.deepStrictEqual(codes(fm), ['carry-kind', 'carry-after-close', 'carry']);
+});
+
+test('leverage must be positive and margin mode known', () => {
+	assert.deepStrictEqual(codes({ ...cleanLong(), leverage: 0, margin_mode: 'portfolio' }), ['leverage', 'margin-mode']);
+	assert.deepStrictEqual(codes({ ...cleanLong(), leverage: 5, margin_mode: 'cross' }), []);
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
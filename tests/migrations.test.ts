@@ -0,0 +1,76 @@
+import { strict as assert } from 'assert';
+import { computeMetrics } from '../helpers';
+import { CURRENT_SCHEMA_VERSION, canMigrate, migrateFrontmatter, schemaVersionOf } from '../migrations';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+test('missing schema_version is read from the layout', () => {
+	assert.strictEqual(schemaVersionOf({ pair: 'BTC/USDT', direction: 'long' }), 1);
+	assert.strictEqual(schemaVersionOf({ pair: 'BTC/USDT', action: 'long', tags: 'swing' }), 1);
+	assert.strictEqual(schemaVersionOf({ pair: 'BTC/USDT', action: 'long', fills: [{ type: 'buy', qty: 1, price: 10, time: '2023-05-01' }] }), 1);
+	assert.strictEqual(schemaVersionOf({ pair: 'BTC/USDT', action: 'long', fills: [{ side: 'in', base: 1, quote: -10, t: '2023-05-01T10:00:00Z' }] }), 2);
+	assert.strictEqual(schemaVersionOf({}), 2);
+	assert.strictEqual(schemaVersionOf({ schema_version: 2 }), 2);
+	assert.ok(Number.isNaN(schemaVersionOf({ schema_version: 'x' })));
+});
+
+test('only known versions up to the current one can migrate', () => {
+	assert.ok(canMigrate(1));
+	assert.ok(canMigrate(CURRENT_SCHEMA_VERSION));
+	assert.ok(!canMigrate(CURRENT_SCHEMA_VERSION + 1));
+	assert.ok(!canMigrate(NaN));
+});
+
+test('v1 short trade gains signed fills, initial_stop and tag list', () => {
+	const fm: Record<string, any> = {
+		pair: 'ETH/USDT',
+		direction: 'short',
+		stop: '3,300',
+		tags: '#swing, eth',
+		fills: [
+			{ type: 'sell', qty: 2, price: 3000, time: '2023-05-01 10:00', note: 'entry' },
+			{ type: 'buy', qty: 2, price: 2800, time: '2023-05-02 10:00' },
+		],
+	};
+	const result = migrateFrontmatter(fm);
+	assert.strictEqual(result.from, 1);
+	assert.strictEqual(result.to, 2);
+	assert.strictEqual(fm.schema_version, 2);
+	assert.strictEqual(fm.action, 'short');
+	assert.strictEqual(fm.direction, undefined);
+	assert.strictEqual(fm.initial_stop, 3300);
+	assert.deepStrictEqual(fm.tags, ['swing', 'eth']);
+	assert.strictEqual(fm.quote, 'USDT');
+	assert.deepStrictEqual(fm.fills.map((f: any) => [f.side, f.base, f.quote, f.t]), [
+		['in', -2, 6000, '2023-05-01T10:00:00.000Z'],
+		['out', 2, -5600, '2023-05-02T10:00:00.000Z'],
+	]);
+	assert.strictEqual(fm.fills[0].note, 'entry');
+	assert.ok(result.changes.some(c => c.includes('2 fills normalized')));
+	const metrics = computeMetrics(fm);
+	assert.strictEqual(metrics.realized_pnl, 400);
+	assert.ok(Math.abs(Number(metrics.r_multiple) - 2 / 3) < 1e-9, 'r multiple from migrated stop');
+});
+
+test('an unversioned note already in the current layout keeps its fills', () => {
+	const fills = [
+		{ side: 'in', base: 0.5, quote: -12345.67, price: 24691.34, t: '2024-03-01T10:15:42.250Z', fee: 1.2 },
+		{ side: 'out', base: -0.5, quote: 13000.01, price: 26000.02, t: '2024-03-02T08:00:07.000Z' },
+	];
+	const fm: Record<string, any> = { pair: 'BTC/USDT', action: 'long', quote: 'USDT', tags: ['swing'], fills: JSON.parse(JSON.stringify(fills)) };
+	const result = migrateFrontmatter(fm);
+	assert.strictEqual(result.from, CURRENT_SCHEMA_VERSION);
+	assert.deepStrictEqual(result.changes, []);
+	assert.deepStrictEqual(fm.fills, fills);
+});
+
+test('unknown versions are refused', () => {
+	assert.throws(() => migrateFrontmatter({ schema_version: 99 }), /No migration path/);
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
@@ -0,0 +1,41 @@
+import { strict as assert } from 'assert';
+import { isTradeFrontmatter } from '../helpers';
+import { TradePathVars, fillPathPattern, resolveTradePath } from '../paths';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const vars: TradePathVars = { when: new Date('2024-03-05T07:09:00Z'), base: 'BTC', quote: 'USDT', action: 'long', account: 'Bybit/Main', setup: 'Breakout' };
+
+test('every occurrence of each token is replaced', () => {
+	assert.strictEqual(fillPathPattern('${YYYY}-${MM}/${YYYY}${MM}${DD}-${HH}${mm}', vars, 1), '2024-03/20240305-0709');
+	assert.strictEqual(fillPathPattern('${BASE}-${QUOTE}-${PAIR}-${ACTION}-${SETUP}-${SEQ}-${NOPE}', vars, 7), 'BTC-USDT-BTCUSDT-long-Breakout-007-${NOPE}');
+	assert.strictEqual(fillPathPattern('${ACCOUNT}', vars, 1), 'Bybit-Main');
+});
+
+test('folder pattern nests under the root and empty tokens leave no stray separators', () => {
+	const path = resolveTradePath({ root: 'Trades/', folderPattern: '${ACCOUNT}/${YYYY}', filenamePattern: 'T-${PAIR}-${SETUP}', vars: { ...vars, account: '', setup: '' }, exists: () => false });
+	assert.deepStrictEqual(path, { id: 'T-BTCUSDT', folder: 'Trades/2024', path: 'Trades/2024/T-BTCUSDT.md' });
+});
+
+test('clashes count up ${SEQ} or add a suffix', () => {
+	const taken = new Set(['T/2024/BTC-001.md', 'T/2024/BTC-002.md', 'T/2024/BTC.md']);
+	const exists = (p: string) => taken.has(p);
+	assert.strictEqual(resolveTradePath({ root: 'T', folderPattern: '${YYYY}', filenamePattern: '${BASE}-${SEQ}', vars, exists }).path, 'T/2024/BTC-003.md');
+	const plain = resolveTradePath({ root: 'T', folderPattern: '${YYYY}', filenamePattern: '${BASE}', vars, exists });
+	assert.deepStrictEqual(plain, { id: 'BTC-1', folder: 'T/2024', path: 'T/2024/BTC-1.md' });
+});
+
+test('trade notes are recognized by frontmatter', () => {
+	assert.ok(isTradeFrontmatter({ pair: 'BTC/USDT', action: 'long' }));
+	assert.ok(isTradeFrontmatter({ pair: 'BTC/USDT', direction: 'buy', schema_version: 1 }));
+	assert.ok(!isTradeFrontmatter({ accounts: [] }));
+	assert.ok(!isTradeFrontmatter({ pair: '', fills: [] }));
+	assert.ok(!isTradeFrontmatter(undefined));
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
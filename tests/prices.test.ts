@@ -0,0 +1,33 @@
+import { strict as assert } from 'assert';
+import { parsePriceSnapshot, lookupPrice } from '../prices';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+test('json object snapshot is keyed by normalized symbol', () => {
+	const table = parsePriceSnapshot('{ "BTC/USDT": 64000, "eth-usdt": "3,100.5", "bad": "x" }', 'prices.json');
+	assert.deepStrictEqual(table, { BTCUSDT: 64000, ETHUSDT: 3100.5 });
+});
+
+test('json array snapshot reads symbol and price fields', () => {
+	const table = parsePriceSnapshot('[{ "symbol": "SOL", "price": 150 }, { "pair": "HYPE/USDC", "mark": 30 }]');
+	assert.deepStrictEqual(table, { SOL: 150, HYPEUSDC: 30 });
+});
+
+test('csv snapshot with and without header', () => {
+	assert.deepStrictEqual(parsePriceSnapshot('symbol,price\nBTCUSDT,64000\r\n"ETH/USDT","3100"\n', 'prices.csv'), { BTCUSDT: 64000, ETHUSDT: 3100 });
+	assert.deepStrictEqual(parsePriceSnapshot('SOL,150\n', 'prices.csv'), { SOL: 150 });
+});
+
+test('lookup prefers the full pair and falls back to the base symbol', () => {
+	const table = { BTCUSDT: 64000, SOL: 150 };
+	assert.strictEqual(lookupPrice(table, { base: 'BTC', quote: 'USDT' }), 64000);
+	assert.strictEqual(lookupPrice(table, { base: 'SOL', quote: 'USDT' }), 150);
+	assert.strictEqual(lookupPrice(table, { base: 'ETH', quote: 'USDT' }), null);
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
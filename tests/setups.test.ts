@@ -0,0 +1,48 @@
+import { strict as assert } from 'assert';
+import { Setup, checklistMarkdown, findSetup, mergeSetups, parseSetupNote, parseStopDistance, setupStop } from '../setups';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const setup = (overrides: Partial<Setup> = {}): Setup => ({ name: 'Breakout', description: '', stopDistance: '', tags: [], account: '', checklist: [], source: 'settings', ...overrides });
+
+test('stop distance is a percentage of entry or a price distance', () => {
+	assert.deepStrictEqual(parseStopDistance('2%'), { value: 2, pct: true });
+	assert.deepStrictEqual(parseStopDistance('150'), { value: 150, pct: false });
+	assert.strictEqual(parseStopDistance('-1'), null);
+	assert.strictEqual(setupStop(setup({ stopDistance: '2%' }), 100, 1), 98);
+	assert.strictEqual(setupStop(setup({ stopDistance: '5' }), 100, -1), 105);
+	assert.strictEqual(setupStop(setup({ stopDistance: '150' }), 100, 1), null);
+	assert.strictEqual(setupStop(null, 100, 1), null);
+});
+
+test('setup notes fall back to the file name and split list fields', () => {
+	const parsed = parseSetupNote({ description: 'Range break on volume', stop_distance: 1.5, tags: '#breakout, momentum', checklist: ['HTF trend agrees', 'Volume above average'] }, 'Range Breakout');
+	assert.deepStrictEqual(parsed, {
+		name: 'Range Breakout',
+		description: 'Range break on volume',
+		stopDistance: '1.5',
+		tags: ['breakout', 'momentum'],
+		account: '',
+		checklist: ['HTF trend agrees', 'Volume above average'],
+		source: 'note',
+	});
+});
+
+test('notes override settings setups of the same name', () => {
+	const merged = mergeSetups([setup(), setup({ name: 'Fade' })], [setup({ name: 'breakout', stopDistance: '1%', source: 'note' })]);
+	assert.deepStrictEqual(merged.map(s => [s.name, s.source]), [['breakout', 'note'], ['Fade', 'settings']]);
+	assert.strictEqual(findSetup(merged, 'BREAKOUT')?.stopDistance, '1%');
+	assert.strictEqual(findSetup(merged, ''), null);
+});
+
+test('checklist becomes markdown tasks', () => {
+	assert.strictEqual(checklistMarkdown(setup({ checklist: ['Trend', 'Level'] })), '## Checklist: Breakout\n\n- [ ] Trend\n- [ ] Level\n\n');
+	assert.strictEqual(checklistMarkdown(setup()), '');
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
@@ -0,0 +1,128 @@
+import { strict as assert } from 'assert';
+import { buildFill, computeMetrics } from '../helpers';
+import type { TradeFrontmatter } from '../schema';
+import { TradeRecord, aggregateTrades, filterFromQuery, filterTrades, parseBlockQuery, statsBySetup } from '../stats';
+import { equitySeries, rHistogram } from '../charts';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+// Long 1 unit at 100, exited at exitPrice on the given day.
+const trade = (name: string, day: string, exitPrice: number | null, extra: Partial<TradeFrontmatter> = {}): TradeRecord => {
+	const when = new Date(`${day}T10:00:00Z`);
+	const fills = [buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when })];
+	if (exitPrice != null) fills.push(buildFill({ dir: 1, side: 'out', amount: 1, price: exitPrice, when }));
+	const fm: Partial<TradeFrontmatter> = { pair: 'BTC/USDT', action: 'long', initial_stop: 90, timestamp: when.toISOString(), fills, ...extra };
+	if (exitPrice != null) fm.closed_at = when.toISOString();
+	return { path: `${name}.md`, name, fm, metrics: computeMetrics(fm) };
+};
+
+const journal = () => [
+	trade('a', '2024-01-01', 120),
+	trade('b', '2024-01-02', 95),
+	trade('c', '2024-01-03', 90),
+	trade('d', '2024-01-04', 110, { pair: 'ETH/USDT', account: 'Bybit', tags: ['breakout'] }),
+	trade('e', '2024-01-05', null),
+];
+
+test('aggregate win/loss figures over closed trades', () => {
+	const stats = aggregateTrades(journal());
+	assert.strictEqual(stats.count.value, 5);
+	assert.strictEqual(stats.open.value, 1);
+	assert.strictEqual(stats.closed.value, 4);
+	assert.strictEqual(stats.winRate.value, 0.5);
+	assert.strictEqual(stats.avgWin.value, 15);
+	assert.strictEqual(stats.avgLoss.value, -7.5);
+	assert.strictEqual(stats.expectancy.value, 3.75);
+	assert.strictEqual(stats.profitFactor.value, 2);
+	assert.strictEqual(stats.avgR.value, 0.375);
+	assert.strictEqual(stats.totalPnl.value, 15);
+	assert.deepStrictEqual(stats.avgLoss.trades.map(t => t.name), ['b', 'c']);
+});
+
+test('max drawdown and losing streak keep the trades behind them', () => {
+	const stats = aggregateTrades(journal());
+	assert.strictEqual(stats.maxDrawdown.value, 15);
+	assert.deepStrictEqual(stats.maxDrawdown.trades.map(t => t.name), ['b', 'c']);
+	assert.strictEqual(stats.longestLosingStreak.value, 2);
+	assert.deepStrictEqual(stats.longestLosingStreak.trades.map(t => t.name), ['b', 'c']);
+});
+
+test('filters by date range, pair, account and tags', () => {
+	const all = journal();
+	assert.deepStrictEqual(filterTrades(all, { from: '2024-01-02', to: '2024-01-03' }).map(t => t.name), ['b', 'c']);
+	assert.deepStrictEqual(filterTrades(all, { pair: 'ethusdt' }).map(t => t.name), ['d']);
+	assert.deepStrictEqual(filterTrades(all, { account: 'bybit' }).map(t => t.name), ['d']);
+	assert.deepStrictEqual(filterTrades(all, { tags: ['#Breakout'] }).map(t => t.name), ['d']);
+});
+
+test('empty journal yields null ratios', () => {
+	const stats = aggregateTrades([]);
+	assert.strictEqual(stats.count.value, 0);
+	assert.strictEqual(stats.winRate.value, null);
+	assert.strictEqual(stats.profitFactor.value, null);
+	assert.strictEqual(stats.maxDrawdown.value, 0);
+});
+
+test('equity series accumulates realized pnl in close order', () => {
+	const points = equitySeries(journal().reverse());
+	assert.deepStrictEqual(points.map(p => [p.record.name, p.equity]), [['a', 20], ['b', 15], ['c', 5], ['d', 15]]);
+});
+
+test('r histogram buckets trades by half R', () => {
+	const bins = rHistogram(journal());
+	assert.deepStrictEqual(bins.map(b => [b.from, b.trades.map(t => t.name)]), [
+		[-1, ['c']], [-0.5, ['b']], [0, []], [0.5, []], [1, ['d']], [1.5, []], [2, ['a']],
+	]);
+	assert.deepStrictEqual(rHistogram([]), []);
+});
+
+test('block query lines become a trade filter', () => {
+	const query = parseBlockQuery('type: equity\n# comment: ignored\npair: BTC/USDT\ntags: a, b\n');
+	assert.deepStrictEqual(query, { type: 'equity', pair: 'BTC/USDT', tags: 'a, b' });
+	assert.deepStrictEqual(filterFromQuery(query), { from: undefined, to: undefined, pair: 'BTC/USDT', account: undefined, setup: undefined, tags: ['a', 'b'] });
+});
+
+test('converted pnl is aggregated and trades without a rate are flagged', () => {
+	const convert = (r: TradeRecord, rate: number | null): TradeRecord => ({ ...r, metrics: computeMetrics(r.fm, { fx: { currency: 'EUR', rate } }) });
+	const [a, b, c] = journal();
+	const records = [convert(a, 0.5), convert(b, null), c];
+	assert.strictEqual(records[0].metrics.realized_pnl_reporting, 10);
+	const stats = aggregateTrades(records);
+	assert.strictEqual(stats.closed.value, 2);
+	assert.strictEqual(stats.totalPnl.value, 0);
+	assert.deepStrictEqual(stats.missingFx.trades.map(t => t.name), ['b']);
+	assert.deepStrictEqual(equitySeries(records).map(p => p.equity), [10, 0]);
+});
+
+test('excursion figures report what was left on the table and near-stop trades', () => {
+	const ranged = (r: TradeRecord, high: number, low: number): TradeRecord => ({ ...r, metrics: computeMetrics(r.fm, { priceRange: { high, low } }) });
+	const [a, b, c] = journal();
+	const stats = aggregateTrades([ranged(a, 130, 98), ranged(b, 104, 91), c]);
+	assert.strictEqual(stats.avgMaeR.value, 0.55);
+	assert.strictEqual(stats.avgMfeR.value, 1.7);
+	assert.strictEqual(stats.avgLeftR.value, 0.95);
+	assert.deepStrictEqual(stats.nearStop.trades.map(t => t.name), ['b']);
+});
+
+test('setup filter and per-setup stats', () => {
+	const records = [
+		trade('a', '2024-01-01', 120, { setup: 'Breakout' }),
+		trade('b', '2024-01-02', 95, { setup: 'Breakout' }),
+		trade('c', '2024-01-03', 110),
+		trade('d', '2024-01-04', 80, { setup: 'Fade' }),
+	];
+	assert.deepStrictEqual(filterTrades(records, filterFromQuery({ setup: 'breakout' })).map(r => r.name), ['a', 'b']);
+	const groups = statsBySetup(records);
+	assert.deepStrictEqual(groups.map(g => g.setup), ['Breakout', 'Fade', '']);
+	assert.strictEqual(groups[0].stats.winRate.value, 0.5);
+	assert.strictEqual(groups[0].stats.expectancy.value, 7.5);
+	assert.strictEqual(groups[0].stats.avgR.value, 0.75);
+	assert.strictEqual(groups[1].stats.avgR.value, -2);
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
@@ -0,0 +1,114 @@
+import { strict as assert } from 'assert';
+import { buildFill, computeMetrics } from '../helpers';
+import type { Fill, TradeFrontmatter } from '../schema';
+import type { TradeRecord } from '../stats';
+import { TaxRules, buildTaxReport, taxReportCsv, taxReportMarkdown, taxYearRange } from '../taxes';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const at = (day: string) => new Date(`${day}T12:00:00Z`);
+const trade = (name: string, action: 'long' | 'short', fills: Fill[], extra: Partial<TradeFrontmatter> = {}): TradeRecord => {
+	const fm: Partial<TradeFrontmatter> = { pair: 'BTC/USD', action, account: 'Kraken', fills, ...extra };
+	return { path: `${name}.md`, name, fm, metrics: computeMetrics(fm) };
+};
+const rules = (overrides: Partial<TaxRules> = {}): TaxRules => ({ method: 'fifo', longTermDays: 365, yearStart: '01-01', ...overrides });
+
+// Two buys in separate notes, one sale in a third note that spans both lots.
+const journal = () => [
+	trade('buy-1', 'long', [buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when: at('2022-06-01'), fee: 1 })]),
+	trade('buy-2', 'long', [buildFill({ dir: 1, side: 'in', amount: 1, price: 200, when: at('2023-03-01') })]),
+	trade('sell', 'long', [buildFill({ dir: 1, side: 'out', amount: 1.5, price: 300, when: at('2023-09-01'), fee: 3 })]),
+];
+
+test('tax years can start mid-year', () => {
+	const range = taxYearRange(2024, '04-06');
+	assert.strictEqual(range.label, '2024-25');
+	assert.strictEqual(new Date(range.from).toISOString(), '2024-04-06T00:00:00.000Z');
+	assert.strictEqual(new Date(range.to).toISOString(), '2025-04-06T00:00:00.000Z');
+	assert.strictEqual(taxYearRange(2024, '01-01').label, '2024');
+});
+
+test('fifo lots are matched across notes with holding periods', () => {
+	const report = buildTaxReport(journal(), 2023, rules());
+	assert.deepStrictEqual(report.disposals.map(d => [d.lotTrade, d.units, d.proceeds, d.cost, d.gain, d.term]), [
+		['buy-1', 1, 298, 101, 197, 'long'],
+		['buy-2', 0.5, 149, 100, 49, 'short'],
+	]);
+	assert.deepStrictEqual(report.totals.map(t => [t.asset, t.account, t.gain, t.shortTerm, t.longTerm]), [['BTC', 'Kraken', 246, 49, 197]]);
+	assert.strictEqual(buildTaxReport(journal(), 2022, rules()).disposals.length, 0);
+});
+
+test('hifo and lifo pick the expensive and the latest lot first', () => {
+	assert.deepStrictEqual(buildTaxReport(journal(), 2023, rules({ method: 'hifo' })).disposals.map(d => [d.lotTrade, d.units]), [['buy-2', 1], ['buy-1', 0.5]]);
+	assert.deepStrictEqual(buildTaxReport(journal(), 2023, rules({ method: 'lifo' })).disposals.map(d => d.lotTrade), ['buy-2', 'buy-1']);
+});
+
+test('accounts keep separate pools and unmatched sales are flagged', () => {
+	const records = journal();
+	records[2].fm.account = 'Binance';
+	const report = buildTaxReport(records, 2023, rules());
+	assert.deepStrictEqual(report.disposals.map(d => [d.acquired, d.cost, d.gain]), [[null, null, null]]);
+	assert.strictEqual(report.totals[0].unmatched, 1);
+	assert.match(report.warnings[0], /sell: 1.5 BTC closed without an open lot/);
+});
+
+test('short lots open on the sale and close on the buyback', () => {
+	const short = trade('short', 'short', [
+		buildFill({ dir: -1, side: 'in', amount: 2, price: 50, when: at('2023-01-10') }),
+		buildFill({ dir: -1, side: 'out', amount: 2, price: 40, when: at('2023-02-10') }),
+	]);
+	const [d] = buildTaxReport([short], 2023, rules()).disposals;
+	assert.deepStrictEqual([d.direction, d.acquired?.slice(0, 10), d.disposed.slice(0, 10), d.proceeds, d.cost, d.gain, d.holdingDays], ['short', '2023-01-10', '2023-02-10', 100, 80, 20, 31]);
+});
+
+test('a short bought back in the next year is reported in that year', () => {
+	const short = trade('short', 'short', [
+		buildFill({ dir: -1, side: 'in', amount: 1, price: 50, when: at('2023-12-01') }),
+		buildFill({ dir: -1, side: 'out', amount: 1, price: 40, when: at('2024-01-15') }),
+	]);
+	assert.strictEqual(buildTaxReport([short], 2023, rules()).disposals.length, 0);
+	const [d] = buildTaxReport([short], 2024, rules()).disposals;
+	assert.deepStrictEqual([d.acquired?.slice(0, 10), d.disposed.slice(0, 10), d.gain], ['2023-12-01', '2024-01-15', 10]);
+	assert.ok(taxReportCsv(buildTaxReport([short], 2024, rules())).includes('2024-01-15'));
+});
+
+test('amounts convert into the reporting currency and a missing rate leaves the disposal unmatched', () => {
+	const report = buildTaxReport(journal(), 2023, rules(), { currency: 'EUR', convert: (asset, t) => (asset === 'USD' && t < Date.parse('2023-08-01') ? 0.5 : null) });
+	assert.deepStrictEqual(report.disposals.map(d => [d.lotTrade, d.currency, d.proceeds, d.cost, d.gain]), [
+		['buy-1', 'EUR', null, 50.5, null],
+		['buy-2', 'EUR', null, 50, null],
+	]);
+	assert.deepStrictEqual(report.totals.map(t => [t.currency, t.disposals, t.unmatched]), [['EUR', 2, 2]]);
+	assert.ok(report.warnings.some(w => w.startsWith('sell: no USD rate')));
+});
+
+test('lots match across quote currencies of the same asset and account', () => {
+	const records = [
+		trade('buy', 'long', [buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when: at('2023-03-01') })], { pair: 'BTC/USDT' }),
+		trade('sell', 'long', [buildFill({ dir: 1, side: 'out', amount: 1, price: 150, when: at('2023-09-01') })], { pair: 'BTC/USDC' }),
+	];
+	const converted = buildTaxReport(records, 2023, rules(), { currency: 'USD', convert: asset => (asset === 'USDT' ? 1 : 0.9) });
+	assert.deepStrictEqual(converted.disposals.map(d => [d.lotTrade, d.currency, d.proceeds, d.cost, d.gain]), [['buy', 'USD', 135, 100, 35]]);
+	assert.deepStrictEqual(converted.warnings, []);
+
+	const unconverted = buildTaxReport(records, 2023, rules());
+	assert.deepStrictEqual(unconverted.disposals.map(d => [d.lotTrade, d.currency, d.proceeds, d.cost, d.gain]), [['buy', 'USDT', null, 100, null]]);
+	assert.match(unconverted.warnings[0], /sell: BTC bought and sold in both USDT and USDC/);
+});
+
+test('report note and csv list every disposal', () => {
+	const report = buildTaxReport(journal(), 2023, rules());
+	const csv = taxReportCsv(report).trim().split('\n');
+	assert.strictEqual(csv.length, 3);
+	assert.strictEqual(csv[0], 'asset,account,direction,acquired,disposed,units,proceeds,cost,gain,currency,holding_days,term,trade,lot_trade');
+	const md = taxReportMarkdown(report, 'Tax/Realized Gains 2023.csv');
+	assert.ok(md.includes('| BTC | Kraken | USD | 2 | 447 | 201 | 246 | 49 | 197 |'));
+	assert.ok(md.includes('[[sell]]'));
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
@@ -0,0 +1,46 @@
+import { strict as assert } from 'assert';
+import type { TradeFrontmatter } from '../schema';
+import { bodyTemplateValues, fillTemplate, previousTradeOnPair } from '../templates';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const fm: Partial<TradeFrontmatter> = {
+	id: 'T-BTCUSDT', pair: 'BTC/USDT', action: 'long', account: 'Main', setup: 'Breakout', tags: ['trade', 'btc'],
+	timestamp: '2024-03-05T23:30:00Z', initial_stop: 58000, leverage: 5,
+	fills: [{ t: '2024-03-05T23:30:00Z', base: 0.5, quote: -30000, price: 60000, side: 'in' }],
+};
+
+test('placeholders come from the frontmatter and the first fill', () => {
+	const values = bodyTemplateValues({ fm, timeZone: 'Asia/Tokyo', previousTrade: '[[T-prev]]' });
+	const body = fillTemplate('${PAIR} ${ACTION} ${ENTRY} x ${AMOUNT} = ${ALLOCATION}, stop ${STOP}, ${RISK_PER_UNIT}/unit, risk ${RISK}, ${LEVERAGE} ${TAGS} after ${PREV_TRADE}', values);
+	assert.strictEqual(body, 'BTC/USDT long 60000 x 0.5 = 30000, stop 58000, 2000/unit, risk 1000, 5x #trade #btc after [[T-prev]]');
+});
+
+test('dates are shown in the chosen zone and in UTC', () => {
+	const values = bodyTemplateValues({ fm, timeZone: 'Asia/Tokyo', previousTrade: '' });
+	assert.strictEqual(fillTemplate('${DATE} ${TIME} ${TIMEZONE} / ${DATE_UTC} ${TIME_UTC}', values), '2024-03-06 08:30 Asia/Tokyo / 2024-03-05 23:30');
+});
+
+test('unknown values are empty and unknown tokens are kept', () => {
+	const values = bodyTemplateValues({ fm: { pair: 'ETH/USDT', action: 'short' }, timeZone: 'UTC', previousTrade: '' });
+	assert.strictEqual(fillTemplate('[${STOP}|${RISK}|${PREV_TRADE}|${DATE}] ${NOPE}', values), '[|||] ${NOPE}');
+});
+
+test('previous trade is the latest earlier one on the same pair', () => {
+	const trades = [
+		{ name: 'a', pair: 'BTC/USDT', timestamp: '2024-03-01T00:00:00Z' },
+		{ name: 'b', pair: 'btc/usdt', timestamp: '2024-03-04T00:00:00Z' },
+		{ name: 'c', pair: 'ETH/USDT', timestamp: '2024-03-04T12:00:00Z' },
+		{ name: 'd', pair: 'BTC/USDT', timestamp: '2024-03-06T00:00:00Z' },
+	];
+	const before = Date.parse('2024-03-05T00:00:00Z');
+	assert.strictEqual(previousTradeOnPair(trades, 'BTC/USDT', before)?.name, 'b');
+	assert.strictEqual(previousTradeOnPair(trades, 'SOL/USDT', before), null);
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
@@ -0,0 +1,61 @@
+import { strict as assert } from 'assert';
+import { buildFill, computeMetrics } from '../helpers';
+import type { TradeFrontmatter } from '../schema';
+import type { TradeRecord } from '../stats';
+import { DEFAULT_TABLE_COLUMNS, parseTradeTableQuery, tradeTableRows, tradeTableTotals } from '../trade-table';
+import { createSuite } from './harness';
+
+const { tests, test, run } = createSuite();
+
+const record = (path: string, day: string, exit: number | null, extra: Partial<TradeFrontmatter> = {}): TradeRecord => {
+	const when = new Date(`${day}T10:00:00Z`);
+	const fills = [buildFill({ dir: 1, side: 'in', amount: 1, price: 100, when })];
+	if (exit != null) fills.push(buildFill({ dir: 1, side: 'out', amount: 1, price: exit, when }));
+	const fm: Partial<TradeFrontmatter> = {
+		pair: 'BTC/USDT', action: 'long', account: 'Main', tags: ['breakout'], timestamp: when.toISOString(),
+		...(exit != null ? { closed_at: when.toISOString() } : {}), initial_stop: 90, fills, ...extra,
+	};
+	return { path, name: path.split('/').pop()?.replace('.md', '') ?? path, fm, metrics: computeMetrics(fm) };
+};
+
+const journal = [
+	record('Trades/T-b.md', '2024-03-05', 80),
+	record('Trades/T-a.md', '2024-03-04', 120),
+	record('Trades/T-open.md', '2024-03-06', null),
+	record('Trades/T-eth.md', '2024-03-05', 110, { pair: 'ETH/USDT' }),
+	record('Other/T-c.md', '2024-03-05', 105),
+];
+
+test('query keys filter by folder, status, pair and date range', () => {
+	const query = parseTradeTableQuery('folder: Trades/\nstatus: closed\npair: btc/usdt\nfrom: 2024-03-04\nto: 2024-03-05\n# a comment');
+	assert.deepStrictEqual(query.errors, []);
+	assert.deepStrictEqual(query.columns, DEFAULT_TABLE_COLUMNS);
+	assert.deepStrictEqual(tradeTableRows(journal, query).map(r => r.name), ['T-a', 'T-b']);
+	assert.deepStrictEqual(tradeTableRows(journal, parseTradeTableQuery('status: open')).map(r => r.name), ['T-open']);
+});
+
+test('bare metric names resolve and sorting puts empty values last', () => {
+	const query = parseTradeTableQuery('columns: name, realized_pnl, metrics.r_multiple\nsort: realized_pnl desc');
+	assert.deepStrictEqual(query.columns, ['name', 'metrics.realized_pnl', 'metrics.r_multiple']);
+	assert.deepStrictEqual(tradeTableRows(journal, query).map(r => r.name), ['T-a', 'T-eth', 'T-c', 'T-b', 'T-open']);
+});
+
+test('unknown columns, sort keys and statuses are reported', () => {
+	const query = parseTradeTableQuery('columns: name, nope\nsort: bogus\nstatus: pending');
+	assert.deepStrictEqual(query.columns, ['name']);
+	assert.strictEqual(query.errors.length, 3);
+});
+
+test('totals sum only columns where a sum means something', () => {
+	const rows = tradeTableRows(journal, parseTradeTableQuery('folder: Trades\nstatus: closed'));
+	assert.deepStrictEqual(tradeTableTotals(rows, ['name', 'metrics.avg_entry', 'metrics.realized_pnl', 'metrics.r_multiple']), {
+		'metrics.realized_pnl': 10,
+		'metrics.r_multiple': 1,
+	});
+});
+
+if (require.main === module) {
+	run();
+}
+
+export { run, tests };
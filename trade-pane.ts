@@ -1,7 +1,8 @@
 import type { TFile } from 'obsidian';
-import { ItemView, WorkspaceLeaf, ButtonComponent } from 'obsidian';
+import { ItemView, WorkspaceLeaf, ButtonComponent, ExtraButtonComponent } from 'obsidian';
 import type { TradeFrontmatter, Fill } from './schema';
-import { computeMetrics } from './helpers';
+import { carryEntries, computeMetrics, evaluatePlan, findPositionFlip, marginMode, matchLots, normalizePlan, round, stopBeyondLiquidation, stopHistory, tradeDirection, tradeLeverage } from './helpers';
+import type { MetricsOptions } from './helpers';
 
 export const VIEW_TYPE_TRADE = 'ace-trade-pane';
 
@@ -9,6 +10,15 @@ export interface TradePaneCallbacks {
 	recompute(file: TFile): Promise<void>;
 	addFill(file: TFile): void;
 	closeTrade(file: TFile): void;
+	metricsOptions(fm: Partial<TradeFrontmatter>): MetricsOptions;
+	editFill(file: TFile, index: number): void;
+	deleteFill(file: TFile, index: number): void;
+	duplicateFill(file: TFile, index: number): void;
+	moveFill(file: TFile, index: number, by: -1 | 1): void;
+	editPlan(file: TFile): void;
+	moveStop(file: TFile): void;
+	addCarry(file: TFile): void;
+	splitFlip(file: TFile): Promise<void>;
 }
 
 export class TradePaneView extends ItemView {
@@ -80,12 +90,39 @@ export class TradePaneView extends ItemView {
 			return;
 		}
 
-		const metrics = computeMetrics(fm);
+		const metrics = computeMetrics(fm, this.callbacks.metricsOptions(fm));
+		this.renderFlipWarning(container, fm);
+		this.renderLiquidationWarning(container, fm, metrics);
 		this.renderMetrics(container, fm, metrics);
+		this.renderPlan(container, fm, metrics);
+		this.renderStops(container, fm);
+		this.renderCarry(container, fm);
 		this.renderFills(container, fm);
+		this.renderLots(container, fm, metrics);
 		this.renderActions(container);
 	}
 
+	private renderFlipWarning(el: HTMLElement, fm: Partial<TradeFrontmatter>): void {
+		const flip = findPositionFlip(fm);
+		if (!flip) return;
+		const section = el.createDiv({ cls: 'ace-trade-pane-section ace-trade-flip' });
+		section.createSpan({ text: `Fill ${flip.fillIndex + 1} takes the position ${flip.excess} past zero; metrics below assume a single direction.` });
+		const split = new ButtonComponent(section);
+		split.setButtonText('Split into New Trade');
+		split.setCta();
+		split.onClick(async () => {
+			const file = this.currentFile;
+			if (!file) return;
+			await this.callbacks.splitFlip(file);
+		});
+	}
+
+	private renderLiquidationWarning(el: HTMLElement, fm: Partial<TradeFrontmatter>, metrics: ReturnType<typeof computeMetrics>): void {
+		if (fm.initial_stop == null || !stopBeyondLiquidation(tradeDirection(fm), Number(fm.initial_stop), metrics.liquidation_price)) return;
+		const section = el.createDiv({ cls: 'ace-trade-pane-section ace-trade-liquidation' });
+		section.createSpan({ text: `Initial stop ${fm.initial_stop} is beyond the estimated liquidation price ${metrics.liquidation_price}; the position would be liquidated first.` });
+	}
+
 	private renderMetrics(el: HTMLElement, fm: Partial<TradeFrontmatter>, metrics: ReturnType<typeof computeMetrics>): void {
 		const section = el.createDiv({ cls: 'ace-trade-pane-section' });
 		section.createEl('h3', { text: 'Metrics' });
@@ -100,8 +137,29 @@ export class TradePaneView extends ItemView {
 			['Position', metrics.position?.toString()],
 			['Avg Entry', metrics.avg_entry?.toString()],
 			['Avg Exit', metrics.avg_exit?.toString()],
-			['Realized PnL', metrics.realized_pnl?.toString()],
+			['Gross PnL', metrics.gross_pnl?.toString()],
+			['Fees', metrics.fees_total != null ? `${metrics.fees_total}${metrics.fees_unpriced ? ' (+ unpriced)' : ''}` : null],
+			['Carry', metrics.carry_total?.toString()],
+			['Net PnL', metrics.net_pnl?.toString()],
+			[`Net PnL (${metrics.reporting_currency ?? 'Reporting'})`, metrics.reporting_currency
+				? (metrics.realized_pnl_reporting != null ? `${metrics.realized_pnl_reporting} @ ${metrics.fx_rate}` : 'no FX rate for closed_at')
+				: null],
+			['Leverage', tradeLeverage(fm) != null ? `${tradeLeverage(fm)}x ${marginMode(fm)}` : null],
+			['Initial Margin', metrics.initial_margin?.toString()],
+			['Return on Margin', metrics.return_on_margin != null ? `${metrics.return_on_margin}%` : null],
+			['Liquidation (est.)', metrics.liquidation_price?.toString()],
+			['Return % of Account', metrics.return_pct != null ? `${metrics.return_pct}% of ${metrics.account_equity}` : null],
 			['R Multiple', metrics.r_multiple?.toString()],
+			['Initial Stop', fm.initial_stop != null ? `${fm.initial_stop}${metrics.initial_risk != null ? ` (1R = ${metrics.initial_risk})` : ''}` : null],
+			['Current Stop', metrics.current_stop?.toString()],
+			['Risk Remaining', metrics.risk_remaining != null ? (metrics.risk_remaining < 0 ? `${-metrics.risk_remaining} locked in` : String(metrics.risk_remaining)) : null],
+			['Locked-in R', metrics.locked_r?.toString()],
+			['Mark Price', metrics.mark_price?.toString()],
+			['Unrealized PnL', metrics.unrealized_pnl?.toString()],
+			['Open R', metrics.open_r?.toString()],
+			['MAE', metrics.mae_price != null ? `${metrics.mae_price} (${metrics.mae_quote}${metrics.mae_r != null ? `, ${metrics.mae_r}R` : ''})` : null],
+			['MFE', metrics.mfe_price != null ? `${metrics.mfe_price} (${metrics.mfe_quote}${metrics.mfe_r != null ? `, ${metrics.mfe_r}R` : ''})` : null],
+			['Cost Basis', metrics.cost_basis],
 			['Last Fill', metrics.last_fill_at],
 			['Computed', metrics.computed_at],
 		];
@@ -113,6 +171,71 @@ export class TradePaneView extends ItemView {
 		}
 	}
 
+	private renderPlan(el: HTMLElement, fm: Partial<TradeFrontmatter>, metrics: ReturnType<typeof computeMetrics>): void {
+		const plan = normalizePlan(fm.plan);
+		if (!plan) return;
+		const report = evaluatePlan(fm, metrics.avg_entry, metrics.status === 'closed');
+		const section = el.createDiv({ cls: 'ace-trade-pane-section' });
+		section.createEl('h3', { text: 'Plan vs Execution' });
+
+		const table = section.createEl('table', { cls: 'ace-trade-fills' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		['', 'Plan', 'Actual'].forEach((heading) => headerRow.createEl('th', { text: heading }));
+		const fmtTime = (t: string) => isNaN(Date.parse(t)) ? (t || '') : new Date(t).toISOString().replace('T', ' ').replace('.000Z', '');
+		const rows: Array<[string, string, string]> = [
+			['Entry', plan.low == null ? '—' : plan.low === plan.high ? String(plan.low) : `${plan.low} – ${plan.high}`,
+				metrics.avg_entry != null ? `${metrics.avg_entry}${report?.plan_slippage ? ` (slippage ${report.plan_slippage})` : ''}` : '—'],
+			['Stop', plan.stop != null ? String(plan.stop) : '—', fm.initial_stop != null ? String(fm.initial_stop) : '—'],
+			...plan.targets.map((t, i): [string, string, string] => {
+				const hitAt = report?.target_fills[i];
+				return [`Target ${i + 1}`, `${t.price} × ${round(t.size * 100, 2)}%`, hitAt ? `hit ${fmtTime(hitAt)}` : metrics.status === 'closed' ? 'missed' : 'pending'];
+			}),
+			['R:R', report?.planned_rr != null ? String(report.planned_rr) : '—', metrics.r_multiple != null ? `${metrics.r_multiple}R` : '—'],
+			['Plan Followed', '', report?.plan_followed_pct != null ? `${report.plan_followed_pct}%` : '—'],
+		];
+		const tbody = table.createEl('tbody');
+		for (const row of rows) {
+			const tr = tbody.createEl('tr');
+			row.forEach((value, i) => tr.createEl(i === 0 ? 'th' : 'td', { text: value }));
+		}
+	}
+
+	private renderStops(el: HTMLElement, fm: Partial<TradeFrontmatter>): void {
+		const history = stopHistory(fm);
+		if (!history.length) return;
+		const section = el.createDiv({ cls: 'ace-trade-pane-section' });
+		section.createEl('h3', { text: 'Stop History' });
+
+		const table = section.createEl('table', { cls: 'ace-trade-fills' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		['Time (UTC)', 'Stop', 'Note'].forEach((heading) => headerRow.createEl('th', { text: heading }));
+		const tbody = table.createEl('tbody');
+		const fmtTime = (t: string) => new Date(t).toISOString().replace('T', ' ').replace('.000Z', '');
+		const initial = tbody.createEl('tr');
+		['entry', fm.initial_stop != null ? String(fm.initial_stop) : '—', 'initial'].forEach(value => initial.createEl('td', { text: value }));
+		for (const move of history) {
+			const tr = tbody.createEl('tr');
+			[fmtTime(move.t), String(move.price), move.note ?? ''].forEach(value => tr.createEl('td', { text: value }));
+		}
+	}
+
+	private renderCarry(el: HTMLElement, fm: Partial<TradeFrontmatter>): void {
+		const carry = carryEntries(fm);
+		if (!carry.length) return;
+		const section = el.createDiv({ cls: 'ace-trade-pane-section' });
+		section.createEl('h3', { text: 'Carry' });
+
+		const table = section.createEl('table', { cls: 'ace-trade-fills' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		['Time (UTC)', 'Kind', 'Amount', 'Note'].forEach((heading) => headerRow.createEl('th', { text: heading }));
+		const tbody = table.createEl('tbody');
+		const fmtTime = (t: string) => new Date(t).toISOString().replace('T', ' ').replace('.000Z', '');
+		for (const entry of carry) {
+			const tr = tbody.createEl('tr');
+			[fmtTime(entry.t), entry.kind, String(entry.amount), entry.note ?? ''].forEach(value => tr.createEl('td', { text: value }));
+		}
+	}
+
 	private renderFills(el: HTMLElement, fm: Partial<TradeFrontmatter>): void {
 		const section = el.createDiv({ cls: 'ace-trade-pane-section' });
 		section.createEl('h3', { text: 'Fills' });
@@ -126,16 +249,64 @@ export class TradePaneView extends ItemView {
 		const table = section.createEl('table', { cls: 'ace-trade-fills' });
 		const thead = table.createEl('thead');
 		const headerRow = thead.createEl('tr');
-		['Time (UTC)', 'Side', 'Base', 'Quote', 'Price', 'Note'].forEach((heading) => headerRow.createEl('th', { text: heading }));
+		['Time (UTC)', 'Side', 'Base', 'Quote', 'Price', 'Fee', 'Note', ''].forEach((heading) => headerRow.createEl('th', { text: heading }));
 
 		const tbody = table.createEl('tbody');
-		for (const fill of fills as Fill[]) {
+		(fills as Fill[]).forEach((fill, index) => {
 			const tr = tbody.createEl('tr');
 			const time = fill.t ? new Date(fill.t).toISOString().replace('T', ' ').replace('.000Z', ' UTC') : '';
-			const values: Array<string | number | null | undefined> = [time, fill.side, fill.base, fill.quote, fill.price, fill.note || ''];
+			const fee = fill.fee ? `${fill.fee} ${fill.fee_asset ?? ''}`.trim() : '';
+			const values: Array<string | number | null | undefined> = [time, fill.side, fill.base, fill.quote, fill.price, fee, fill.note || ''];
 			for (const value of values) {
 				tr.createEl('td', { text: value != null ? String(value) : '' });
 			}
+			this.renderFillActions(tr.createEl('td', { cls: 'ace-fill-actions' }), index, fills.length);
+		});
+	}
+
+	private renderFillActions(td: HTMLElement, index: number, count: number): void {
+		const action = (icon: string, tooltip: string, run: (file: TFile) => void, disabled = false) => {
+			new ExtraButtonComponent(td).setIcon(icon).setTooltip(tooltip).setDisabled(disabled).onClick(() => {
+				const file = this.currentFile;
+				if (file && !disabled) run(file);
+			});
+		};
+		action('arrow-up', 'Move fill up', (file) => this.callbacks.moveFill(file, index, -1), index === 0);
+		action('arrow-down', 'Move fill down', (file) => this.callbacks.moveFill(file, index, 1), index === count - 1);
+		action('pencil', 'Edit fill', (file) => this.callbacks.editFill(file, index));
+		action('copy', 'Duplicate fill', (file) => this.callbacks.duplicateFill(file, index));
+		action('trash', 'Delete fill', (file) => this.callbacks.deleteFill(file, index));
+	}
+
+	private renderLots(el: HTMLElement, fm: Partial<TradeFrontmatter>, metrics: ReturnType<typeof computeMetrics>): void {
+		const method = metrics.cost_basis;
+		if (method !== 'fifo' && method !== 'lifo') return;
+		const fills = Array.isArray(fm.fills) ? fm.fills as Fill[] : [];
+		const { exits } = matchLots(fills, method, tradeDirection(fm));
+		if (!exits.length) return;
+
+		const section = el.createDiv({ cls: 'ace-trade-pane-section' });
+		section.createEl('h3', { text: `Matched Lots (${method.toUpperCase()})` });
+
+		const table = section.createEl('table', { cls: 'ace-trade-fills' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		['Exit (UTC)', 'Units', 'Exit Price', 'Entry (UTC)', 'Entry Price', 'PnL'].forEach((heading) => headerRow.createEl('th', { text: heading }));
+
+		const tbody = table.createEl('tbody');
+		const fmtTime = (t: string) => isNaN(Date.parse(t)) ? (t || '') : new Date(t).toISOString().replace('T', ' ').replace('.000Z', '');
+		for (const exit of exits) {
+			exit.lots.forEach((lot, i) => {
+				const tr = tbody.createEl('tr');
+				const values = i === 0
+					? [fmtTime(exit.t), lot.units, exit.price, fmtTime(lot.t), lot.price, exit.pnl]
+					: ['', lot.units, '', fmtTime(lot.t), lot.price, ''];
+				for (const value of values) tr.createEl('td', { text: String(value) });
+			});
+			if (exit.unmatched) {
+				const tr = tbody.createEl('tr');
+				[exit.lots.length ? '' : fmtTime(exit.t), exit.unmatched, exit.price, 'unmatched', '', exit.lots.length ? '' : exit.pnl]
+					.forEach(value => tr.createEl('td', { text: String(value) }));
+			}
 		}
 	}
 
@@ -162,6 +333,33 @@ export class TradePaneView extends ItemView {
 			this.callbacks.addFill(file);
 		});
 
+		const moveStop = new ButtonComponent(section);
+		moveStop.setButtonText('Move Stop');
+		moveStop.setDisabled(disabled);
+		moveStop.onClick(() => {
+			const file = this.currentFile;
+			if (!file) return;
+			this.callbacks.moveStop(file);
+		});
+
+		const addCarry = new ButtonComponent(section);
+		addCarry.setButtonText('Add Funding');
+		addCarry.setDisabled(disabled);
+		addCarry.onClick(() => {
+			const file = this.currentFile;
+			if (!file) return;
+			this.callbacks.addCarry(file);
+		});
+
+		const editPlan = new ButtonComponent(section);
+		editPlan.setButtonText('Edit Plan');
+		editPlan.setDisabled(disabled);
+		editPlan.onClick(() => {
+			const file = this.currentFile;
+			if (!file) return;
+			this.callbacks.editPlan(file);
+		});
+
 		const closeTrade = new ButtonComponent(section);
 		closeTrade.setButtonText('Close Trade');
 		closeTrade.setDisabled(disabled);
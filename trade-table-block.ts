@@ -0,0 +1,70 @@
+import { App, MarkdownRenderChild, TAbstractFile, TFile, debounce } from 'obsidian';
+import { tradeColumnValue } from './export';
+import { TradeRecord } from './stats';
+import { TradeTableQuery, parseTradeTableQuery, tableCellText, tradeTableRows, tradeTableTotals } from './trade-table';
+
+export interface TradeTableHost {
+	trades(): TradeRecord[]; // persisted metrics, as the charts use
+	isTrade(file: TFile): boolean;
+	openTrade(path: string): void;
+}
+
+// Table for an ace-trades code block; redrawn when a trade it shows, or one in its folder, changes.
+export class TradeTableBlock extends MarkdownRenderChild {
+	private readonly app: App;
+	private readonly host: TradeTableHost;
+	private readonly query: TradeTableQuery;
+	private shown = new Set<string>();
+
+	constructor(app: App, containerEl: HTMLElement, source: string, host: TradeTableHost) {
+		super(containerEl);
+		this.app = app;
+		this.host = host;
+		this.query = parseTradeTableQuery(source);
+	}
+
+	onload(): void {
+		this.render();
+		const refresh = debounce(() => this.render(), 500, true);
+		const affects = (file: TAbstractFile, oldPath?: string) => this.shown.has(file.path) || (oldPath != null && this.shown.has(oldPath))
+			|| (file instanceof TFile && this.host.isTrade(file) && (!this.query.folder || file.path.startsWith(this.query.folder + '/')));
+		this.registerEvent(this.app.metadataCache.on('changed', (file) => { if (affects(file)) refresh(); }));
+		this.registerEvent(this.app.vault.on('delete', (file) => { if (affects(file)) refresh(); }));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => { if (affects(file, oldPath)) refresh(); }));
+	}
+
+	private render(): void {
+		const el = this.containerEl;
+		el.empty();
+		el.addClass('ace-trade-table');
+		for (const error of this.query.errors) el.createDiv({ cls: 'ace-invalid', text: error });
+		const rows = tradeTableRows(this.host.trades(), this.query);
+		this.shown = new Set(rows.map(r => r.path));
+		if (!rows.length) {
+			el.createSpan({ text: 'No trades match.' });
+			return;
+		}
+		const { columns } = this.query;
+		const table = el.createEl('table', { cls: 'ace-trade-fills' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		columns.forEach(c => headerRow.createEl('th', { text: c.replace(/^metrics\./, '') }));
+		const tbody = table.createEl('tbody');
+		for (const record of rows) {
+			const tr = tbody.createEl('tr');
+			for (const column of columns) {
+				const td = tr.createEl('td');
+				const text = tableCellText(tradeColumnValue(record, column));
+				if (column === 'name' || column === 'path') {
+					const link = td.createEl('a', { text, cls: 'internal-link' });
+					link.onclick = () => this.host.openTrade(record.path);
+				} else td.setText(text);
+			}
+		}
+		const totals = tradeTableTotals(rows, columns);
+		const totalRow = table.createEl('tfoot').createEl('tr', { cls: 'ace-trade-table-total' });
+		columns.forEach((column, i) => {
+			const total = totals[column];
+			totalRow.createEl('td', { text: total != null ? String(total) : i === 0 ? `Total (${rows.length})` : '' });
+		});
+	}
+}
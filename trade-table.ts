@@ -0,0 +1,83 @@
+import { round } from './helpers';
+import { EXPORT_COLUMNS, Value, tradeColumnValue } from './export';
+import { TradeFilter, TradeRecord, filterFromQuery, filterTrades, parseBlockQuery, tradeDate } from './stats';
+
+// What an ace-trades block asks for; columns use the export names, bare metric names included.
+export interface TradeTableQuery {
+    folder: string;
+    status: 'open' | 'closed' | '';
+    filter: TradeFilter;
+    sort: string; // column; empty keeps trade date order
+    desc: boolean;
+    columns: string[];
+    errors: string[];
+}
+
+export const DEFAULT_TABLE_COLUMNS = ['name', 'pair', 'action', 'timestamp', 'closed_at', 'metrics.status', 'metrics.realized_pnl', 'metrics.r_multiple'];
+
+// Columns where a plain sum means something; the rest are left blank in the totals row.
+const SUMMED = new Set([
+    'metrics.realized_pnl', 'metrics.gross_pnl', 'metrics.net_pnl', 'metrics.fees_total', 'metrics.carry_total',
+    'metrics.r_multiple', 'metrics.initial_risk', 'metrics.unrealized_pnl', 'metrics.realized_pnl_reporting', 'reported_pnl',
+]);
+
+export const resolveTableColumn = (name: string) => {
+    const c = name.trim();
+    if (EXPORT_COLUMNS.trades.includes(c)) return c;
+    return EXPORT_COLUMNS.trades.includes(`metrics.${c}`) ? `metrics.${c}` : null;
+};
+
+export const parseTradeTableQuery = (source: string): TradeTableQuery => {
+    const query = parseBlockQuery(source);
+    const errors: string[] = [];
+    const status = (query.status ?? '').toLowerCase();
+    if (status && status !== 'open' && status !== 'closed' && status !== 'all') errors.push(`Unknown status "${query.status}" (use open, closed or all)`);
+    const columns: string[] = [];
+    for (const name of (query.columns ?? '').split(',').map(c => c.trim()).filter(Boolean)) {
+        const column = resolveTableColumn(name);
+        if (column) columns.push(column);
+        else errors.push(`Unknown column "${name}"`);
+    }
+    const [sortName = '', order = ''] = (query.sort ?? '').trim().split(/\s+/);
+    const sort = sortName ? resolveTableColumn(sortName) : '';
+    if (sort == null) errors.push(`Unknown sort column "${sortName}"`);
+    return {
+        folder: (query.folder ?? '').trim().replace(/\/+$/, ''),
+        status: status === 'open' || status === 'closed' ? status : '',
+        filter: filterFromQuery(query),
+        sort: sort ?? '',
+        desc: order.toLowerCase() === 'desc',
+        columns: columns.length ? columns : DEFAULT_TABLE_COLUMNS,
+        errors,
+    };
+};
+
+const compareValues = (a: Value, b: Value) => {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(Array.isArray(a) ? a.join(' ') : a).localeCompare(String(Array.isArray(b) ? b.join(' ') : b));
+};
+
+// Empty values sort last whichever way the column is ordered.
+export const tradeTableRows = (records: TradeRecord[], query: TradeTableQuery) => {
+    const inFolder = query.folder ? records.filter(r => r.path.startsWith(query.folder + '/')) : records;
+    const rows = filterTrades(inFolder, query.filter).filter(r => !query.status || r.metrics.status === query.status);
+    if (!query.sort) return rows.sort((a, b) => (tradeDate(a) ?? Number.MAX_SAFE_INTEGER) - (tradeDate(b) ?? Number.MAX_SAFE_INTEGER));
+    const sign = query.desc ? -1 : 1;
+    return rows
+        .map(record => ({ record, value: tradeColumnValue(record, query.sort) }))
+        .sort((a, b) => {
+            if (a.value == null || b.value == null) return Number(a.value == null) - Number(b.value == null);
+            return sign * compareValues(a.value, b.value);
+        })
+        .map(r => r.record);
+};
+
+// Sums across trades in different quotes are plain sums; use reported_pnl for one currency.
+export const tradeTableTotals = (records: TradeRecord[], columns: string[]) => Object.fromEntries(columns
+    .filter(c => SUMMED.has(c))
+    .map(c => {
+        const values = records.map(r => tradeColumnValue(r, c)).filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+        return [c, values.length ? round(values.reduce((acc, v) => acc + v, 0)) : null];
+    })) as Record<string, number | null>;
+
+export const tableCellText = (v: Value) => (v == null ? '' : Array.isArray(v) ? v.join(', ') : String(v));